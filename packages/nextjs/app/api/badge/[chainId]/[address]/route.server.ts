@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Address, isAddress } from "viem";
+import { getTargetNetworkPublicClient } from "~~/services/web3/publicClient";
+import {
+  SIZE_BADGE_STYLES,
+  SIZE_BAND_GRADIENTS,
+  SizeBadgeOptions,
+  SizeBadgeStyle,
+  checkContractSize,
+  formatKB,
+  getBytecodeSize,
+  getSizeBand,
+  renderSizeBadge,
+} from "~~/utils/contract-size";
+
+const DEFAULT_LABEL = "contract size";
+const MAX_LABEL_LENGTH = 40;
+
+// Badges are fetched through README image proxies, which should pick up a redeploy within minutes
+const BADGE_CACHE_CONTROL = "public, max-age=300, s-maxage=300, stale-while-revalidate=3600";
+// Errors are often transient (RPC hiccups), so they are retried sooner
+const ERROR_BADGE_CACHE_CONTROL = "public, max-age=60, s-maxage=60";
+
+const ERROR_COLOR = "#e05d44";
+const NO_CODE_COLOR = "#9f9f9f";
+
+// Always a 200, image proxies like GitHub's camo don't render error responses
+const badgeResponse = (badge: SizeBadgeOptions, cacheControl: string) =>
+  new NextResponse(renderSizeBadge(badge), {
+    headers: { "Content-Type": "image/svg+xml; charset=utf-8", "Cache-Control": cacheControl },
+  });
+
+/**
+ * SVG badge with the size of the contract at an address against the chain's limit, colored like the size bar:
+ * `GET /api/badge/10143/0x...[?style=for-the-badge&label=size]`
+ */
+export const GET = async (
+  request: NextRequest,
+  { params }: { params: Promise<{ chainId: string; address: string }> },
+) => {
+  const { chainId: chainIdParam, address } = await params;
+  const { searchParams } = request.nextUrl;
+  const styleParam = searchParams.get("style");
+  const style = SIZE_BADGE_STYLES.includes(styleParam as SizeBadgeStyle) ? (styleParam as SizeBadgeStyle) : "flat";
+  const label = (searchParams.get("label") || DEFAULT_LABEL).slice(0, MAX_LABEL_LENGTH);
+
+  const errorBadge = (message: string) =>
+    badgeResponse({ label, message, color: ERROR_COLOR, style }, ERROR_BADGE_CACHE_CONTROL);
+
+  const chainId = Number(chainIdParam);
+  const client = /^\d+$/.test(chainIdParam) ? getTargetNetworkPublicClient(chainId) : undefined;
+  if (!client) return errorBadge("unsupported chain");
+  if (!isAddress(address, { strict: false })) return errorBadge("invalid address");
+
+  try {
+    const check = await checkContractSize(client, address as Address);
+    if (!check.sizeData) {
+      return badgeResponse({ label, message: "no code", color: NO_CODE_COLOR, style }, BADGE_CACHE_CONTROL);
+    }
+
+    const { from, to } = SIZE_BAND_GRADIENTS[getSizeBand(check.sizeData.size, check.limits)];
+    const message = `${formatKB(getBytecodeSize(check.bytecode), 1)} / ${formatKB(check.limits.runtimeCodeLimit, 1)}`;
+    return badgeResponse({ label, message, color: { from, to }, style }, BADGE_CACHE_CONTROL);
+  } catch (err) {
+    console.error("Failed to check contract size for badge", err);
+    return errorBadge("rpc error");
+  }
+};
@@ -0,0 +1,168 @@
+import { ImageResponse } from "next/og";
+import { NextRequest } from "next/server";
+import { readFile } from "fs/promises";
+import path from "path";
+import { Address, isAddress } from "viem";
+import { getTargetNetworkPublicClient } from "~~/services/web3/publicClient";
+import {
+  ContractSizeCheck,
+  SIZE_BAND_GRADIENTS,
+  SIZE_STATUS_LABELS,
+  checkContractSize,
+  formatKB,
+  getBytecodeSize,
+  getChainName,
+  getSizeBand,
+  getSizeStatus,
+  getSizeVisualScale,
+} from "~~/utils/contract-size";
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+const BACKGROUND = "#200052";
+const FOREGROUND = "#FBFAF9";
+const PRIMARY = "#836EF9";
+
+// Previews are re-fetched rarely by the platforms, a few minutes old is fine
+const IMAGE_CACHE_CONTROL = "public, max-age=300, s-maxage=300, stale-while-revalidate=3600";
+const ERROR_IMAGE_CACHE_CONTROL = "public, max-age=60, s-maxage=60";
+
+let molandakDataUrl: Promise<string> | undefined;
+
+const getMolandakDataUrl = () => {
+  molandakDataUrl ??= readFile(path.join(process.cwd(), "public", "MolandakHD.png")).then(
+    image => `data:image/png;base64,${image.toString("base64")}`,
+  );
+  return molandakDataUrl;
+};
+
+const Card = ({ title, subtitle }: { title: string; subtitle: string }) => (
+  <div
+    style={{
+      width: "100%",
+      height: "100%",
+      display: "flex",
+      padding: 64,
+      background: BACKGROUND,
+      color: FOREGROUND,
+      fontSize: 32,
+    }}
+  >
+    <div style={{ display: "flex", flexDirection: "column", flexGrow: 1, justifyContent: "space-between" }}>
+      <div style={{ display: "flex", flexDirection: "column" }}>
+        <div style={{ display: "flex", color: PRIMARY, fontSize: 36, fontWeight: 700 }}>Sizoor</div>
+        <div style={{ display: "flex", fontSize: 28, marginTop: 8, opacity: 0.8 }}>{subtitle}</div>
+      </div>
+      <div style={{ display: "flex", flexDirection: "column" }}>
+        <div style={{ display: "flex", fontSize: 72, fontWeight: 700 }}>{title}</div>
+      </div>
+    </div>
+  </div>
+);
+
+const SizeCard = ({ check, molandak }: { check: ContractSizeCheck; molandak: string }) => {
+  const size = getBytecodeSize(check.bytecode);
+  const sizeKB = size / 1024;
+  const limitKB = check.limits.runtimeCodeLimit / 1024;
+  const percentage = (size / check.limits.runtimeCodeLimit) * 100;
+  const { from, to } = SIZE_BAND_GRADIENTS[getSizeBand(sizeKB, check.limits)];
+  const molandakSize = Math.min(500, 60 + getSizeVisualScale(sizeKB, limitKB) * 110);
+
+  return (
+    <div
+      style={{
+        width: "100%",
+        height: "100%",
+        display: "flex",
+        padding: 64,
+        background: BACKGROUND,
+        color: FOREGROUND,
+      }}
+    >
+      <div style={{ display: "flex", flexDirection: "column", width: 640, justifyContent: "space-between" }}>
+        <div style={{ display: "flex", flexDirection: "column" }}>
+          <div style={{ display: "flex", color: PRIMARY, fontSize: 36, fontWeight: 700 }}>Sizoor</div>
+          <div style={{ display: "flex", fontSize: 26, marginTop: 8, opacity: 0.8 }}>
+            {`${check.address.slice(0, 10)}...${check.address.slice(-8)} on ${getChainName(check.chainId)}`}
+          </div>
+        </div>
+        <div style={{ display: "flex", flexDirection: "column" }}>
+          <div style={{ display: "flex", fontSize: 96, fontWeight: 700 }}>{formatKB(size)}</div>
+          <div style={{ display: "flex", fontSize: 30, marginTop: 8 }}>
+            {`${percentage.toFixed(1)}% of ${formatKB(check.limits.runtimeCodeLimit)} · ${
+              SIZE_STATUS_LABELS[getSizeStatus(sizeKB, check.limits)]
+            }`}
+          </div>
+          <div
+            style={{
+              display: "flex",
+              width: "100%",
+              height: 32,
+              marginTop: 32,
+              borderRadius: 4,
+              background: "rgba(251, 250, 249, 0.15)",
+              overflow: "hidden",
+            }}
+          >
+            <div
+              style={{
+                display: "flex",
+                width: `${Math.min(percentage, 100)}%`,
+                height: "100%",
+                backgroundImage: `linear-gradient(to right, ${from}, ${to})`,
+              }}
+            />
+          </div>
+        </div>
+      </div>
+      <div style={{ display: "flex", flexGrow: 1, alignItems: "center", justifyContent: "center" }}>
+        {/* eslint-disable-next-line @next/next/no-img-element, jsx-a11y/alt-text */}
+        <img src={molandak} width={molandakSize} height={molandakSize} />
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Open Graph / Twitter card of a shareable result: the size, its share of the limit and its band, with the Molandak
+ * grown to match
+ */
+export const GET = async (
+  request: NextRequest,
+  { params }: { params: Promise<{ chainId: string; address: string }> },
+) => {
+  const { chainId: chainIdParam, address } = await params;
+  const chainId = Number(chainIdParam);
+  const client = /^\d+$/.test(chainIdParam) ? getTargetNetworkPublicClient(chainId) : undefined;
+
+  const errorImage = (title: string, subtitle: string) =>
+    new ImageResponse(<Card title={title} subtitle={subtitle} />, {
+      width: WIDTH,
+      height: HEIGHT,
+      headers: { "Cache-Control": ERROR_IMAGE_CACHE_CONTROL },
+    });
+
+  if (!client) return errorImage("Unsupported chain", `Chain ${chainIdParam}`);
+  if (!isAddress(address, { strict: false })) return errorImage("Invalid address", address);
+
+  let check: ContractSizeCheck;
+  try {
+    check = await checkContractSize(client, address as Address);
+  } catch (err) {
+    console.error("Failed to check contract size for the preview image", err);
+    return errorImage("Couldn't read the contract", `${address} on ${getChainName(chainId)}`);
+  }
+  if (!check.sizeData) {
+    return new ImageResponse(<Card title="No contract code" subtitle={`${address} on ${getChainName(chainId)}`} />, {
+      width: WIDTH,
+      height: HEIGHT,
+      headers: { "Cache-Control": IMAGE_CACHE_CONTROL },
+    });
+  }
+
+  return new ImageResponse(<SizeCard check={check} molandak={await getMolandakDataUrl()} />, {
+    width: WIDTH,
+    height: HEIGHT,
+    headers: { "Cache-Control": IMAGE_CACHE_CONTROL },
+  });
+};
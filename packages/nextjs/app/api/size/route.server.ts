@@ -0,0 +1,208 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Address, PublicClient, isAddress, keccak256, toBytes } from "viem";
+import { getTargetNetworkPublicClient } from "~~/services/web3/publicClient";
+import {
+  ContractSizeCheck,
+  checkContractSize,
+  getBytecodeSize,
+  getSizeStatus,
+  isObject,
+  mapWithConcurrency,
+} from "~~/utils/contract-size";
+
+type SizeApiErrorCode =
+  | "invalid_chain_id"
+  | "unsupported_chain"
+  | "invalid_address"
+  | "invalid_block_number"
+  | "invalid_body"
+  | "too_many_addresses"
+  | "rpc_error";
+
+type SizeApiError = { code: SizeApiErrorCode; message: string };
+
+type SizeApiResult = ReturnType<typeof toSizeApiResult>;
+
+const MAX_BATCH_SIZE = 100;
+const BATCH_CONCURRENCY = 5;
+
+// Code at the latest block can change (upgrades, self-destructs), code at a finalized block can't
+const LATEST_CACHE_CONTROL = "public, max-age=0, s-maxage=60, stale-while-revalidate=300";
+const FINALIZED_CACHE_CONTROL = "public, max-age=31536000, immutable";
+
+// Pinned blocks this deep under the head are treated as final on nodes without the "finalized" block tag
+const SAFE_BLOCK_DEPTH = 64n;
+
+// Classifications carry balances and nonces as bigints, which JSON.stringify can't serialize
+const jsonResponse = (body: unknown, init?: ResponseInit) =>
+  new NextResponse(
+    JSON.stringify(body, (_, value) => (typeof value === "bigint" ? value.toString() : value)),
+    { ...init, headers: { "Content-Type": "application/json", ...init?.headers } },
+  );
+
+const errorResponse = (status: number, code: SizeApiErrorCode, message: string) =>
+  jsonResponse({ error: { code, message } satisfies SizeApiError }, { status });
+
+const toSizeApiResult = (check: ContractSizeCheck) => {
+  const size = check.sizeData ? getBytecodeSize(check.bytecode) : 0;
+  return {
+    address: check.address,
+    // Null without code. Delegated EOAs get the hash of their delegation designator
+    codeHash: check.bytecode !== "0x" ? keccak256(check.bytecode) : null,
+    // Sizes in bytes
+    size,
+    limit: check.limits.runtimeCodeLimit,
+    percentageOfLimit: Number(((size / check.limits.runtimeCodeLimit) * 100).toFixed(2)),
+    status: check.sizeData ? getSizeStatus(check.sizeData.size, check.limits) : null,
+    classification: check.classification,
+    proxy: check.proxy ?? null,
+  };
+};
+
+/**
+ * Weak ETag from the block and the code hashes (and proxy implementations, which can change behind an unchanged
+ * proxy), so clients revalidating a response that is still current get a 304
+ */
+const getETag = (blockNumber: bigint, results: (SizeApiResult | { error: SizeApiError })[]) => {
+  const key = [
+    blockNumber.toString(),
+    ...results.map(result =>
+      "error" in result
+        ? result.error.code
+        : [result.codeHash, ...(result.proxy?.implementations.map(i => `${i.address}:${i.size}`) ?? [])].join(":"),
+    ),
+  ].join(",");
+  return `W/"${keccak256(toBytes(key)).slice(2, 34)}"`;
+};
+
+type ChainParams = { client: PublicClient; chainId: number; blockNumber?: bigint } | { error: NextResponse };
+
+const parseChainParams = (chainIdInput: unknown, blockNumberInput: unknown): ChainParams => {
+  const chainId = typeof chainIdInput === "number" ? chainIdInput : Number(chainIdInput);
+  if (chainIdInput === null || chainIdInput === undefined || !Number.isSafeInteger(chainId) || chainId <= 0) {
+    return { error: errorResponse(400, "invalid_chain_id", "chainId must be a positive integer") };
+  }
+  const client = getTargetNetworkPublicClient(chainId);
+  if (!client) {
+    return { error: errorResponse(400, "unsupported_chain", `Chain ${chainId} isn't one of this app's networks`) };
+  }
+  if (blockNumberInput === null || blockNumberInput === undefined || blockNumberInput === "") {
+    return { client, chainId };
+  }
+  if (!/^\d+$/.test(String(blockNumberInput))) {
+    return { error: errorResponse(400, "invalid_block_number", "blockNumber must be a non-negative integer") };
+  }
+  return { client, chainId, blockNumber: BigInt(String(blockNumberInput)) };
+};
+
+// Whether a block can no longer be reorged, when the node can tell
+const isFinalizedBlock = async (client: PublicClient, blockNumber: bigint) => {
+  try {
+    const finalized = await client.getBlock({ blockTag: "finalized" });
+    return blockNumber <= finalized.number;
+  } catch (e) {
+    return blockNumber + SAFE_BLOCK_DEPTH <= (await client.getBlockNumber());
+  }
+};
+
+// Code past the head can't be read yet, which is the client's mistake rather than the node's
+const pastHeadResponse = (blockNumber: bigint, latestBlock: bigint) =>
+  errorResponse(400, "invalid_block_number", `blockNumber ${blockNumber} is past the latest block ${latestBlock}`);
+
+const getRpcErrorMessage = (err: any): string => err.shortMessage || err.message || "Error fetching contract bytecode";
+
+/**
+ * Size of the contract at an address: `GET /api/size?chainId=10143&address=0x...[&blockNumber=123]`
+ */
+export const GET = async (request: NextRequest) => {
+  const { searchParams } = request.nextUrl;
+  const params = parseChainParams(searchParams.get("chainId"), searchParams.get("blockNumber"));
+  if ("error" in params) return params.error;
+
+  const address = searchParams.get("address");
+  if (!address || !isAddress(address, { strict: false })) {
+    return errorResponse(400, "invalid_address", "address must be an EVM address");
+  }
+
+  let result: SizeApiResult;
+  let blockNumber: bigint;
+  try {
+    if (params.blockNumber !== undefined) {
+      const latestBlock = await params.client.getBlockNumber();
+      if (params.blockNumber > latestBlock) return pastHeadResponse(params.blockNumber, latestBlock);
+    }
+    const check = await checkContractSize(params.client, address as Address, { blockNumber: params.blockNumber });
+    result = toSizeApiResult(check);
+    blockNumber = check.blockNumber;
+  } catch (err: any) {
+    return errorResponse(502, "rpc_error", getRpcErrorMessage(err));
+  }
+  // A pinned block close to the head can still be reorged, so it's cached like the latest one until finalized
+  const isFinalized =
+    params.blockNumber !== undefined && (await isFinalizedBlock(params.client, blockNumber).catch(() => false));
+
+  const etag = getETag(blockNumber, [result]);
+  const headers = {
+    ETag: etag,
+    "Cache-Control": isFinalized ? FINALIZED_CACHE_CONTROL : LATEST_CACHE_CONTROL,
+  };
+  if (request.headers.get("If-None-Match") === etag) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  return jsonResponse({ chainId: params.chainId, blockNumber, ...result }, { headers });
+};
+
+/**
+ * Sizes of a batch of contracts, all read at the same block: `POST /api/size` with a JSON body
+ * `{ "chainId": 10143, "addresses": ["0x...", ...], "blockNumber"?: 123 }`. Invalid addresses and RPC failures
+ * are reported per address.
+ */
+export const POST = async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (e) {
+    return errorResponse(400, "invalid_body", "The body must be JSON");
+  }
+  if (!isObject(body)) {
+    return errorResponse(400, "invalid_body", "The body must be a JSON object");
+  }
+
+  const params = parseChainParams(body.chainId, body.blockNumber);
+  if ("error" in params) return params.error;
+
+  const { addresses } = body;
+  if (!Array.isArray(addresses) || addresses.length === 0 || addresses.some(item => typeof item !== "string")) {
+    return errorResponse(400, "invalid_body", "addresses must be a non-empty array of strings");
+  }
+  if (addresses.length > MAX_BATCH_SIZE) {
+    return errorResponse(400, "too_many_addresses", `At most ${MAX_BATCH_SIZE} addresses per request`);
+  }
+
+  let latestBlock: bigint;
+  try {
+    latestBlock = await params.client.getBlockNumber();
+  } catch (err: any) {
+    return errorResponse(502, "rpc_error", getRpcErrorMessage(err));
+  }
+  if (params.blockNumber !== undefined && params.blockNumber > latestBlock) {
+    return pastHeadResponse(params.blockNumber, latestBlock);
+  }
+  const blockNumber = params.blockNumber ?? latestBlock;
+
+  const results = (await mapWithConcurrency(addresses as string[], BATCH_CONCURRENCY, async address => {
+    if (!isAddress(address, { strict: false })) {
+      return { address, error: { code: "invalid_address", message: "Not an EVM address" } satisfies SizeApiError };
+    }
+    try {
+      return toSizeApiResult(await checkContractSize(params.client, address, { blockNumber }));
+    } catch (err: any) {
+      return { address, error: { code: "rpc_error", message: getRpcErrorMessage(err) } satisfies SizeApiError };
+    }
+  })) as (SizeApiResult | { address: string; error: SizeApiError })[];
+
+  return jsonResponse(
+    { chainId: params.chainId, blockNumber, results },
+    { headers: { ETag: getETag(blockNumber, results), "Cache-Control": "no-store" } },
+  );
+};
@@ -0,0 +1,49 @@
+import { notFound } from "next/navigation";
+import type { Metadata, NextPage } from "next";
+import { getAddress, isAddress } from "viem";
+import { CheckerHome } from "~~/components/CheckerHome";
+import scaffoldConfig from "~~/scaffold.config";
+import { getChainName } from "~~/utils/contract-size";
+import { ZERO_ADDRESS, isZeroAddress } from "~~/utils/scaffold-eth/common";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+type PageProps = {
+  params: Promise<{ chainId: string; address: string }>;
+};
+
+const parseParams = async (params: PageProps["params"]) => {
+  const { chainId, address } = await params;
+  if (!scaffoldConfig.targetNetworks.some(network => network.id.toString() === chainId)) return undefined;
+  if (!isAddress(address, { strict: false })) return undefined;
+  return { chainId: Number(chainId), address: getAddress(address) };
+};
+
+export function generateStaticParams() {
+  // An workaround to enable static exports in Next.js, generating single dummy page.
+  return [{ chainId: scaffoldConfig.targetNetworks[0].id.toString(), address: ZERO_ADDRESS }];
+}
+
+export const generateMetadata = async ({ params }: PageProps): Promise<Metadata> => {
+  const check = await parseParams(params);
+  if (!check || isZeroAddress(check.address)) return {};
+
+  const chainName = getChainName(check.chainId);
+  return getMetadata({
+    title: `${check.address.slice(0, 6)}...${check.address.slice(-4)} on ${chainName}`,
+    description: `How big is the contract at ${check.address} on ${chainName}? Its size against the contract size limit.`,
+    imageRelativePath: `/api/og/${check.chainId}/${check.address}`,
+  });
+};
+
+/**
+ * Shareable result: the checker, checking a contract as soon as the page loads
+ */
+const CheckPage: NextPage<PageProps> = async ({ params }) => {
+  const check = await parseParams(params);
+  if (!check) notFound();
+  if (isZeroAddress(check.address)) return null;
+
+  return <CheckerHome initialCheck={check} />;
+};
+
+export default CheckPage;
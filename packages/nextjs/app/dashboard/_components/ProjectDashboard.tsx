@@ -0,0 +1,292 @@
+"use client";
+
+import { ChangeEvent, useEffect, useMemo, useState } from "react";
+import { Address as AddressType } from "viem";
+import { usePublicClient } from "wagmi";
+import { Address } from "~~/components/scaffold-eth";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+import projectConfig from "~~/sizoor.config.json";
+import {
+  BuildArtifactContract,
+  SIZOOR_CONFIG_FILE_NAME,
+  SizeCheckViolation,
+  SizoorConfig,
+  formatKB,
+  getBytecodeSize,
+  getContractBudget,
+  getContractSizeLimits,
+  getSizeViolation,
+  mapWithConcurrency,
+  parseBuildArtifact,
+  parseSizoorConfig,
+} from "~~/utils/contract-size";
+import { useAllContracts } from "~~/utils/scaffold-eth/contractsData";
+
+type ContractOrigin = "artifact" | "deployed" | "external";
+
+type DashboardRow = {
+  key: string;
+  name: string;
+  sourceName?: string;
+  origin: ContractOrigin;
+  address?: AddressType;
+  // Sizes in bytes. The runtime size is undefined while measuring or when nothing is deployed at the address
+  runtimeSize?: number;
+  initcodeSize?: number;
+  budget?: number;
+  // Bytes left under the budget, or the limit when it's tighter. Negative when over.
+  headroom?: number;
+  violation?: SizeCheckViolation;
+  initcodeOverLimit: boolean;
+  error?: string;
+};
+
+type DeployedSize = { size?: number; error?: string };
+
+const ORIGIN_LABELS: Record<ContractOrigin, string> = {
+  artifact: "Artifact",
+  deployed: "Deployed",
+  external: "External",
+};
+
+const DEPLOYED_CONCURRENCY = 5;
+
+// Lets the file input pick a whole folder (e.g. `artifacts/` or `out/`), which React's input types don't declare
+const FOLDER_INPUT_PROPS: Record<string, string> = { webkitdirectory: "", directory: "" };
+
+/**
+ * Sizes of all the contracts of a project, from uploaded build artifacts and from the deployed and external
+ * contracts of the target network, against their `sizoor.config.json` budgets. Sorted by headroom, tightest first.
+ */
+export const ProjectDashboard = () => {
+  const [artifacts, setArtifacts] = useState<BuildArtifactContract[]>([]);
+  const [uploadedConfig, setUploadedConfig] = useState<SizoorConfig | null>(null);
+  const [skippedFiles, setSkippedFiles] = useState<number>(0);
+  const [deployedSizes, setDeployedSizes] = useState<Record<string, DeployedSize>>({});
+  const [isMeasuring, setIsMeasuring] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const deployedContracts = useAllContracts();
+  const sizeLimits = useMemo(() => getContractSizeLimits(targetNetwork.id), [targetNetwork.id]);
+  // An invalid project config is reported, and the sizes shown without budgets
+  const parsedProjectConfig = useMemo((): { config: SizoorConfig; error?: string } => {
+    try {
+      return { config: parseSizoorConfig(projectConfig) };
+    } catch (err: any) {
+      return { config: { budgets: {} }, error: err.message };
+    }
+  }, []);
+  // An uploaded config replaces the project's
+  const config = uploadedConfig ?? parsedProjectConfig.config;
+
+  // Measure the deployed and external contracts of the target network
+  useEffect(() => {
+    if (!publicClient) return;
+    let isCancelled = false;
+    setDeployedSizes({});
+    setIsMeasuring(true);
+    mapWithConcurrency(Object.entries(deployedContracts), DEPLOYED_CONCURRENCY, async ([name, contract]) => {
+      let result: DeployedSize;
+      try {
+        const code = await publicClient.getCode({ address: contract.address });
+        result = { size: code && code !== "0x" ? getBytecodeSize(code) : undefined };
+      } catch (err: any) {
+        result = { error: err.shortMessage || err.message || "Error fetching contract bytecode" };
+      }
+      if (!isCancelled) setDeployedSizes(prev => ({ ...prev, [name]: result }));
+    }).finally(() => {
+      if (!isCancelled) setIsMeasuring(false);
+    });
+    return () => {
+      isCancelled = true;
+    };
+  }, [publicClient, deployedContracts]);
+
+  const handleFileUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    const files = Array.from(e.target.files ?? []).filter(file => file.name.endsWith(".json"));
+    e.target.value = "";
+
+    const loaded = new Map<string, BuildArtifactContract>();
+    let skipped = 0;
+    for (const file of files) {
+      try {
+        const text = await file.text();
+        if (file.name === SIZOOR_CONFIG_FILE_NAME) {
+          setUploadedConfig(parseSizoorConfig(JSON.parse(text)));
+          continue;
+        }
+        // A contract can be in both its artifact and a build-info file
+        parseBuildArtifact(text, file.name).forEach(contract =>
+          loaded.set(`${contract.sourceName ?? ""}:${contract.name}`, contract),
+        );
+      } catch (err: any) {
+        if (file.name === SIZOOR_CONFIG_FILE_NAME) setError(`${file.name}: ${err.message}`);
+        // Artifact folders also hold debug files, caches and ABIs, which are skipped
+        else skipped++;
+      }
+    }
+    setSkippedFiles(skipped);
+    if (loaded.size > 0) setArtifacts([...loaded.values()]);
+  };
+
+  const rows = useMemo(() => {
+    const toRow = (
+      row: Omit<DashboardRow, "budget" | "headroom" | "violation" | "initcodeOverLimit">,
+    ): DashboardRow => {
+      const budget = getContractBudget(config, row.name, row.sourceName);
+      const ceiling = Math.min(sizeLimits.runtimeCodeLimit, budget ?? Infinity);
+      return {
+        ...row,
+        budget,
+        headroom: row.runtimeSize !== undefined ? ceiling - row.runtimeSize : undefined,
+        violation:
+          row.runtimeSize !== undefined
+            ? getSizeViolation(row.runtimeSize, sizeLimits.runtimeCodeLimit, budget)
+            : undefined,
+        initcodeOverLimit: row.initcodeSize !== undefined && row.initcodeSize > sizeLimits.initcodeLimit,
+      };
+    };
+
+    return [
+      ...artifacts.map(contract =>
+        toRow({
+          key: `artifact:${contract.sourceName ?? ""}:${contract.name}`,
+          name: contract.name,
+          sourceName: contract.sourceName,
+          origin: "artifact",
+          runtimeSize: contract.runtimeSize,
+          initcodeSize: contract.initcodeSize,
+        }),
+      ),
+      ...Object.entries(deployedContracts).map(([name, contract]) =>
+        toRow({
+          key: `deployed:${name}`,
+          name,
+          origin: contract.external ? "external" : "deployed",
+          address: contract.address,
+          runtimeSize: deployedSizes[name]?.size,
+          error: deployedSizes[name]?.error,
+        }),
+      ),
+    ].sort((a, b) => (a.headroom ?? Infinity) - (b.headroom ?? Infinity));
+  }, [artifacts, deployedContracts, deployedSizes, config, sizeLimits]);
+
+  const overLimitCount = rows.filter(row => row.violation === "limit" || row.initcodeOverLimit).length;
+  const overBudgetCount = rows.filter(row => row.violation === "budget").length;
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <div className="bg-base-200 p-4 rounded-lg space-y-3">
+        <div className="flex flex-col md:flex-row gap-4">
+          <label className="form-control w-full">
+            <span className="label-text text-sm mb-1">Artifact folder</span>
+            <input
+              type="file"
+              multiple
+              {...FOLDER_INPUT_PROPS}
+              onChange={handleFileUpload}
+              className="file-input file-input-bordered file-input-sm w-full"
+            />
+          </label>
+          <label className="form-control w-full">
+            <span className="label-text text-sm mb-1">Artifact or config files</span>
+            <input
+              type="file"
+              multiple
+              accept=".json,application/json"
+              onChange={handleFileUpload}
+              className="file-input file-input-bordered file-input-sm w-full"
+            />
+          </label>
+        </div>
+        <p className="text-xs opacity-70 m-0">
+          Hardhat <code>artifacts/</code> (or its build-info), Foundry <code>out/</code> or solc standard JSON output.
+          Budgets come from <code>{SIZOOR_CONFIG_FILE_NAME}</code>, e.g.{" "}
+          <code>{`{ "defaultBudget": "100KB", "budgets": { "Token": 24576, "src/Vault.sol:Vault": "120KB" } }`}</code>.
+          {uploadedConfig ? " Using the uploaded config." : " Using the project's config, upload one to override it."}
+          {skippedFiles > 0 && ` ${skippedFiles} file${skippedFiles === 1 ? "" : "s"} without contracts skipped.`}
+        </p>
+      </div>
+
+      {!uploadedConfig && parsedProjectConfig.error && (
+        <div className="alert alert-error">{parsedProjectConfig.error}</div>
+      )}
+      {error && <div className="alert alert-error">{error}</div>}
+
+      {rows.length === 0 ? (
+        <div className="text-center opacity-70 py-8">
+          No contracts yet: upload build artifacts, or deploy contracts to {targetNetwork.name}.
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-4 text-sm">
+            <span>
+              {rows.length} contract{rows.length === 1 ? "" : "s"} on {targetNetwork.name}, limit{" "}
+              {formatKB(sizeLimits.runtimeCodeLimit)}
+            </span>
+            {overLimitCount > 0 && <span className="text-error font-semibold">{overLimitCount} over the limit</span>}
+            {overBudgetCount > 0 && <span className="text-warning font-semibold">{overBudgetCount} over budget</span>}
+            {isMeasuring && <span className="opacity-70">Measuring deployed contracts...</span>}
+          </div>
+
+          <div className="overflow-x-auto bg-base-100 rounded-lg">
+            <table className="table table-compact w-full">
+              <thead>
+                <tr>
+                  <th>Contract</th>
+                  <th>Runtime</th>
+                  <th>Initcode</th>
+                  <th>Budget</th>
+                  <th>Headroom</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr
+                    key={row.key}
+                    className={`hover ${
+                      row.violation === "limit" || row.initcodeOverLimit
+                        ? "bg-error/20"
+                        : row.violation === "budget"
+                          ? "bg-warning/20"
+                          : ""
+                    }`}
+                  >
+                    <td>
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold">{row.name}</span>
+                        <span className="badge badge-sm badge-outline">{ORIGIN_LABELS[row.origin]}</span>
+                      </div>
+                      {row.sourceName && <div className="text-xs opacity-70">{row.sourceName}</div>}
+                      {row.address && <Address address={row.address} size="xs" />}
+                      {row.error && <div className="text-xs text-error max-w-xs break-words">{row.error}</div>}
+                    </td>
+                    <td className={row.violation === "limit" ? "text-error font-semibold" : ""}>
+                      {row.runtimeSize !== undefined
+                        ? formatKB(row.runtimeSize)
+                        : row.address && deployedSizes[row.name] && !row.error
+                          ? "No code"
+                          : "-"}
+                    </td>
+                    <td className={row.initcodeOverLimit ? "text-error font-semibold" : ""}>
+                      {row.initcodeSize !== undefined ? formatKB(row.initcodeSize) : "-"}
+                    </td>
+                    <td>{row.budget !== undefined ? formatKB(row.budget) : "-"}</td>
+                    <td className={row.headroom !== undefined && row.headroom < 0 ? "text-error font-semibold" : ""}>
+                      {row.headroom !== undefined
+                        ? `${row.headroom < 0 ? "-" : ""}${formatKB(Math.abs(row.headroom))}`
+                        : "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import { ProjectDashboard } from "./_components/ProjectDashboard";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Dashboard",
+  description: "Sizes of all the contracts of a project against their budgets and the network's limits",
+});
+
+const DashboardPage: NextPage = () => {
+  return (
+    <div className="flex items-center justify-center flex-col flex-grow pt-10">
+      <div className="px-5 w-full max-w-5xl">
+        <h1 className="text-center text-4xl font-bold mb-2">Dashboard</h1>
+        <p className="text-center mb-8">
+          Every contract of your project against its size budget and the network&apos;s limits
+        </p>
+        <ProjectDashboard />
+      </div>
+    </div>
+  );
+};
+
+export default DashboardPage;
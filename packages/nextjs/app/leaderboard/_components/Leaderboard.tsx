@@ -0,0 +1,269 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { usePublicClient } from "wagmi";
+import { Address } from "~~/components/scaffold-eth";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+import {
+  ScanState,
+  ScannedDeployment,
+  formatKB,
+  getContractSizeLimits,
+  getGradientClass,
+  getScanState,
+  getScannedDeployments,
+  resetScan,
+  runDeploymentScan,
+} from "~~/utils/contract-size";
+
+const LEADERBOARD_SIZE = 100;
+// Blocks scanned by default on a chain that was never scanned
+const DEFAULT_SCAN_DEPTH = 1000n;
+
+const SOURCE_LABELS: Record<NonNullable<ScanState["source"]>, string> = {
+  trace_block: "receipts and traces (trace_block)",
+  callTracer: "receipts and traces (debug_traceBlockByNumber)",
+  receipt: "receipts only, factory deployments are missed",
+};
+
+/**
+ * Ranks the contracts deployed on the target network by size. Scanned blocks are cached in IndexedDB,
+ * so a reload resumes the scan where it stopped.
+ */
+export const Leaderboard = () => {
+  const [scanState, setScanState] = useState<ScanState | null>(null);
+  const [deployments, setDeployments] = useState<ScannedDeployment[]>([]);
+  const [startBlock, setStartBlock] = useState<string>("");
+  const [latestBlock, setLatestBlock] = useState<bigint | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isScanning, setIsScanning] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const sizeLimits = useMemo(() => getContractSizeLimits(targetNetwork.id), [targetNetwork.id]);
+  // Network whose scan is on show, for scans still reporting after a switch
+  const targetChainIdRef = useRef(targetNetwork.id);
+
+  // A scan covers one chain, so it stops when leaving the page or switching networks
+  useEffect(() => {
+    targetChainIdRef.current = targetNetwork.id;
+    return () => abortControllerRef.current?.abort();
+  }, [targetNetwork.id]);
+
+  // Load the cached scan of the target network
+  useEffect(() => {
+    let isCancelled = false;
+    setIsLoading(true);
+    setError(null);
+    Promise.all([getScanState(targetNetwork.id), getScannedDeployments(targetNetwork.id)])
+      .then(([savedState, savedDeployments]) => {
+        if (isCancelled) return;
+        setScanState(savedState ?? null);
+        setDeployments(savedDeployments);
+      })
+      .catch(e => {
+        console.error("Failed to load the cached scan", e);
+        if (!isCancelled) setError("Could not read the scan cache, results won't be saved");
+      })
+      .finally(() => {
+        if (!isCancelled) setIsLoading(false);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [targetNetwork.id]);
+
+  // Suggest a recent start block
+  useEffect(() => {
+    publicClient
+      ?.getBlockNumber()
+      .then(blockNumber => {
+        setLatestBlock(blockNumber);
+        setStartBlock(prev =>
+          prev ? prev : (blockNumber > DEFAULT_SCAN_DEPTH ? blockNumber - DEFAULT_SCAN_DEPTH : 0n).toString(),
+        );
+      })
+      .catch(e => console.error("Failed to fetch the latest block", e));
+  }, [publicClient]);
+
+  const scan = async (restartFrom?: bigint) => {
+    setError(null);
+    if (!publicClient) {
+      setError("No public client found");
+      return;
+    }
+
+    const chainId = targetNetwork.id;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsScanning(true);
+    try {
+      let state = scanState;
+      if (!state || restartFrom !== undefined) {
+        state = await resetScan(chainId, restartFrom ?? BigInt(startBlock || "0"));
+        setDeployments([]);
+        setScanState(state);
+      }
+      const toBlock = await publicClient.getBlockNumber();
+      if (abortController.signal.aborted) return;
+      setLatestBlock(toBlock);
+      await runDeploymentScan(publicClient, state, toBlock, {
+        signal: abortController.signal,
+        onBlock: (newState, newDeployments) => {
+          if (newState.chainId !== targetChainIdRef.current) return;
+          setScanState(newState);
+          if (newDeployments.length > 0) {
+            // A redeployment at the same address replaces the previous entry, as in the cache
+            const newAddresses = new Set(newDeployments.map(deployment => deployment.address));
+            setDeployments(prev => [
+              ...prev.filter(deployment => !newAddresses.has(deployment.address)),
+              ...newDeployments,
+            ]);
+          }
+        },
+      });
+    } catch (err: any) {
+      if (chainId === targetChainIdRef.current) setError(err.shortMessage || err.message || "Error scanning blocks");
+    } finally {
+      // A scan started since then on another network keeps running
+      if (abortControllerRef.current === abortController) {
+        setIsScanning(false);
+        abortControllerRef.current = null;
+      }
+    }
+  };
+
+  const stopScan = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const restartScan = () => {
+    if (!/^\d+$/.test(startBlock.trim())) {
+      setError("The start block must be an integer");
+      return;
+    }
+    scan(BigInt(startBlock.trim()));
+  };
+
+  const ranking = useMemo(
+    () => [...deployments].sort((a, b) => b.size - a.size).slice(0, LEADERBOARD_SIZE),
+    [deployments],
+  );
+
+  const scannedBlocks =
+    scanState?.lastScannedBlock !== undefined
+      ? BigInt(scanState.lastScannedBlock) - BigInt(scanState.startBlock) + 1n
+      : 0n;
+  const remainingBlocks =
+    latestBlock !== null && scanState
+      ? latestBlock -
+        (scanState.lastScannedBlock ? BigInt(scanState.lastScannedBlock) : BigInt(scanState.startBlock) - 1n)
+      : undefined;
+
+  return (
+    <div className="bg-base-200 p-6 rounded-xl w-full space-y-4">
+      <div className="flex flex-col md:flex-row gap-4 md:items-end">
+        <label className="form-control w-full">
+          <span className="label-text text-sm mb-1">Start block</span>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={startBlock}
+            onChange={e => setStartBlock(e.target.value)}
+            className="input input-bordered input-sm"
+            disabled={isScanning}
+          />
+        </label>
+        {isScanning ? (
+          <button className="btn btn-error btn-sm whitespace-nowrap" onClick={stopScan}>
+            Stop
+          </button>
+        ) : (
+          <>
+            {scanState && (
+              <button className="btn btn-primary btn-sm whitespace-nowrap" onClick={() => scan()} disabled={isLoading}>
+                Resume Scan
+              </button>
+            )}
+            <button
+              className={`btn btn-sm whitespace-nowrap ${scanState ? "btn-outline" : "btn-primary"}`}
+              onClick={restartScan}
+              disabled={isLoading}
+            >
+              {scanState ? "Restart From Start Block" : "Start Scan"}
+            </button>
+          </>
+        )}
+      </div>
+
+      {scanState && (
+        <div className="text-sm space-y-1">
+          <p className="m-0">
+            Scanned {scannedBlocks.toString()} blocks from {scanState.startBlock}
+            {scanState.lastScannedBlock && ` to ${scanState.lastScannedBlock}`}, {deployments.length} deployments found
+            {remainingBlocks !== undefined && remainingBlocks > 0n && ` · ${remainingBlocks.toString()} blocks behind`}
+          </p>
+          {scanState.source && <p className="m-0 text-xs opacity-70">Using {SOURCE_LABELS[scanState.source]}</p>}
+        </div>
+      )}
+
+      {error && <div className="alert alert-error">{error}</div>}
+
+      {ranking.length > 0 && (
+        <div className="overflow-x-auto bg-base-100 rounded-lg">
+          <table className="table table-compact w-full">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Contract</th>
+                <th>Size</th>
+                <th>Deployer</th>
+                <th>Block</th>
+                <th>Time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ranking.map((deployment, index) => {
+                const percentageOfLimit = (deployment.size / sizeLimits.runtimeCodeLimit) * 100;
+                return (
+                  <tr key={deployment.address} className="hover">
+                    <td>{index + 1}</td>
+                    <td>
+                      <Address address={deployment.address} size="sm" />
+                      {deployment.factory && (
+                        <div className="text-xs opacity-60 flex items-center gap-1">
+                          via <Address address={deployment.factory} size="xs" />
+                        </div>
+                      )}
+                    </td>
+                    <td className="min-w-[140px]">
+                      {formatKB(deployment.size)}
+                      <div className="h-2 bg-base-200 rounded-sm overflow-hidden mt-1">
+                        <div
+                          className={`h-full ${getGradientClass(deployment.size / 1024, sizeLimits)}`}
+                          style={{ width: `${Math.min(100, percentageOfLimit)}%` }}
+                        ></div>
+                      </div>
+                      <div className="text-xs opacity-60">{percentageOfLimit.toFixed(1)}%</div>
+                    </td>
+                    <td>
+                      <Address address={deployment.deployer} size="sm" />
+                    </td>
+                    <td>{deployment.blockNumber}</td>
+                    <td className="text-xs">{new Date(deployment.timestamp * 1000).toLocaleString()}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {!isLoading && scanState?.lastScannedBlock && ranking.length === 0 && (
+        <p className="text-center opacity-70">No deployments found in the scanned blocks yet</p>
+      )}
+    </div>
+  );
+};
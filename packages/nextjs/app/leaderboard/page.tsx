@@ -0,0 +1,22 @@
+import { Leaderboard } from "./_components/Leaderboard";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Leaderboard",
+  description: "The largest contracts deployed on the network, for the Crazy Contract Challenge",
+});
+
+const LeaderboardPage: NextPage = () => {
+  return (
+    <div className="flex items-center justify-center flex-col flex-grow pt-10">
+      <div className="px-5 w-full max-w-5xl">
+        <h1 className="text-center text-4xl font-bold mb-2">Leaderboard</h1>
+        <p className="text-center mb-8">The largest contracts deployed on the network, found by scanning its blocks</p>
+        <Leaderboard />
+      </div>
+    </div>
+  );
+};
+
+export default LeaderboardPage;
@@ -1,194 +1,374 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import Image from "next/image";
-import { Address } from "./scaffold-eth";
-import { usePublicClient } from "wagmi";
+import {
+  AddressClassificationResult,
+  BatchSizeChecker,
+  BuildArtifactDropZone,
+  BuildArtifactResult,
+  BytecodeAnatomy,
+  BytecodeDiffChecker,
+  CreationSizeResult,
+  CrossNetworkSizeChecker,
+  DeploymentCostEstimate,
+  DryRunSizeChecker,
+  FunctionSizeBreakdown,
+  ProxySizeResult,
+  ReportComparison,
+  ReportExportButtons,
+  SizeHistory,
+  SizeLimitProbe,
+  SizeOptimizationAdvice,
+  StorageLayoutChecker,
+  TimelineSizeChecker,
+  WatchList,
+} from "./contract-size";
+import { Address as AddressType, Hash, Hex, isHash, keccak256 } from "viem";
+import { useAccount, usePublicClient, useSwitchChain } from "wagmi";
+import { useContractSize } from "~~/hooks/contract-size";
 import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+import scaffoldConfig from "~~/scaffold.config";
+import { useGlobalState } from "~~/services/store/store";
+import {
+  BuildArtifactContract,
+  ContractSizeData,
+  CreationLookup,
+  CreationSize,
+  HistoryEntry,
+  SIZE_STATUS_LABELS,
+  createSizeReport,
+  deleteHistoryEntries,
+  findContractCreations,
+  formatKB,
+  getChainName,
+  getContractSizeData,
+  getContractSizeLimits,
+  getGradientClass,
+  getHistoryEntries,
+  getHistoryEntryId,
+  getSizeBands,
+  getSizeStatus,
+  getSizeVisualScale,
+  measureContractCreations,
+  migrateLegacyHistory,
+  saveHistoryEntry,
+} from "~~/utils/contract-size";
+import { notification } from "~~/utils/scaffold-eth";
+
+type CheckerMode = "single" | "batch" | "cross-network" | "compare" | "dry-run" | "probe" | "timeline" | "reports";
+
+const CHECKER_MODES: { mode: CheckerMode; label: string }[] = [
+  { mode: "single", label: "Single" },
+  { mode: "batch", label: "Batch" },
+  { mode: "cross-network", label: "Cross-network" },
+  { mode: "compare", label: "Compare" },
+  { mode: "dry-run", label: "Dry run" },
+  { mode: "probe", label: "Limit probe" },
+  { mode: "timeline", label: "Timeline" },
+  { mode: "reports", label: "Reports" },
+];
+
+// A size that doesn't come from checking an address: a creation transaction, a build artifact or a history entry
+type LoadedResult = {
+  chainId: number;
+  // Undefined for build artifacts, which aren't deployed
+  address?: AddressType;
+  sizeData: ContractSizeData;
+  // Unknown for history entries, which only keep the size
+  bytecode?: Hex;
+};
 
-interface ContractSizeData {
-  size: number;
-  percentageOfLimit: number;
-}
-
-interface HistoryItem {
-  address: string;
-  data: ContractSizeData;
-  timestamp: number;
-}
+type ContractSizeCheckerProps = {
+  // Check to run once loaded, from a shared result link
+  initialCheck?: { chainId: number; address: string };
+};
 
-export const ContractSizeChecker = () => {
+export const ContractSizeChecker = ({ initialCheck }: ContractSizeCheckerProps) => {
+  const [mode, setMode] = useState<CheckerMode>("single");
   const [contractAddress, setContractAddress] = useState<string>("");
-  const [contractSize, setContractSize] = useState<ContractSizeData | null>(null);
-  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [pinnedBlock, setPinnedBlock] = useState<string>("");
+  const [checkedBlock, setCheckedBlock] = useState<bigint | null>(null);
+  const [loadedResult, setLoadedResult] = useState<LoadedResult | null>(null);
+  const [isCheckingCreation, setIsCheckingCreation] = useState<boolean>(false);
+  // Invalid inputs and failed creation lookups, the hook keeps the errors of address checks
   const [error, setError] = useState<string | null>(null);
-  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [networkSwitchEntry, setNetworkSwitchEntry] = useState<HistoryEntry | null>(null);
   const [imageScale, setImageScale] = useState<number>(0);
   const [showAnimation, setShowAnimation] = useState<boolean>(false);
+  const [artifact, setArtifact] = useState<BuildArtifactContract | null>(null);
+  const [pendingInitialCheck, setPendingInitialCheck] = useState(initialCheck ?? null);
+  const [creationResult, setCreationResult] = useState<{
+    source: CreationLookup["source"];
+    creations: CreationSize[];
+  } | null>(null);
 
   const { targetNetwork } = useTargetNetwork();
   const publicClient = usePublicClient({ chainId: targetNetwork.id });
-
-  // Load history from local storage on component mount
+  const {
+    data: sizeCheck,
+    isLoading: isCheckingSize,
+    error: sizeCheckError,
+    check: checkSize,
+    reset: resetSizeCheck,
+  } = useContractSize();
+  const { isConnected } = useAccount();
+  const { switchChain } = useSwitchChain();
+  const setTargetNetwork = useGlobalState(({ setTargetNetwork }) => setTargetNetwork);
+  // The result on show comes either from the hook's address check or from a loaded result
+  const contractSize = loadedResult ? loadedResult.sizeData : (sizeCheck?.sizeData ?? null);
+  const bytecode = loadedResult ? (loadedResult.bytecode ?? null) : sizeCheck?.sizeData ? sizeCheck.bytecode : null;
+  const proxyResolution = (!loadedResult && sizeCheck?.proxy) || null;
+  const addressClassification =
+    !loadedResult && sizeCheck && sizeCheck.classification.kind !== "contract" ? sizeCheck.classification : null;
+  const isLoading = isCheckingSize || isCheckingCreation;
+  const resultError = error ?? sizeCheckError;
+  // Results loaded from history can be from another chain than the target network
+  const resultChainId = loadedResult?.chainId ?? sizeCheck?.chainId ?? targetNetwork.id;
+  // The address the result is for, the input may have been edited since
+  const resultAddress = loadedResult ? loadedResult.address : sizeCheck?.address;
+  const resultChainName = getChainName(resultChainId);
+  const sizeLimits = useMemo(() => getContractSizeLimits(resultChainId), [resultChainId]);
+  const sizeBands = getSizeBands(sizeLimits);
+  const sizeLimitKB = sizeBands.limit;
+  const sizeStatus = contractSize ? getSizeStatus(contractSize.size, sizeLimits) : undefined;
+  const limitLabel = formatKB(sizeLimits.runtimeCodeLimit);
+  const targetBandLabel = sizeLimits.targetBand
+    ? `${formatKB(sizeLimits.targetBand.min)}-${formatKB(sizeLimits.targetBand.max)}`
+    : undefined;
+  const targetBandPercentage = sizeLimits.targetBand
+    ? (sizeLimits.targetBand.min / sizeLimits.runtimeCodeLimit) * 100
+    : undefined;
+
+  // Load history from IndexedDB, bringing over the one earlier versions kept in localStorage
   useEffect(() => {
-    const savedHistory = localStorage.getItem("contractSizeHistory");
-    if (savedHistory) {
-      try {
-        setHistory(JSON.parse(savedHistory));
-      } catch (e) {
-        console.error("Failed to parse history from localStorage");
-      }
-    }
-  }, []);
-
-  // Save history to local storage whenever it changes
-  useEffect(() => {
-    if (history.length > 0) {
-      localStorage.setItem("contractSizeHistory", JSON.stringify(history));
-    }
-  }, [history]);
+    migrateLegacyHistory(targetNetwork.id)
+      .then(getHistoryEntries)
+      .then(setHistory)
+      .catch(e => console.error("Failed to load history from IndexedDB", e));
+  }, [targetNetwork.id]);
 
   // Animation effect when contract size changes
   useEffect(() => {
-    if (contractSize) {
-      setShowAnimation(true);
-      // Start with a tiny scale
-      setImageScale(0.1);
-
-      // Gradually increase the scale to the target value
-      const targetScale = calculateImageScale(contractSize.size);
-      const steps = 80; // Increased from 30 to 60 steps
-      const increment = (targetScale - 0.1) / steps;
-
-      let step = 0;
-      const interval = setInterval(() => {
-        if (step < steps) {
-          setImageScale(prev => prev + increment);
-          step++;
-        } else {
-          clearInterval(interval);
-        }
-      }, 50); // Increased from 40ms to 50ms per step (~3 seconds total animation)
-
-      return () => clearInterval(interval);
+    if (!contractSize) {
+      setShowAnimation(false);
+      return;
     }
-  }, [contractSize]);
-
-  const getContractSize = async (address: string) => {
-    setIsLoading(true);
-    setError(null);
-    try {
-      console.log("publicClient", publicClient);
-      if (!publicClient) {
-        throw new Error("No public client found");
+    setShowAnimation(true);
+    // Start with a tiny scale
+    setImageScale(0.1);
+
+    // Gradually increase the scale to the target value
+    const targetScale = getSizeVisualScale(contractSize.size, sizeLimitKB);
+    const steps = 80; // Increased from 30 to 60 steps
+    const increment = (targetScale - 0.1) / steps;
+
+    let step = 0;
+    const interval = setInterval(() => {
+      if (step < steps) {
+        setImageScale(prev => prev + increment);
+        step++;
+      } else {
+        clearInterval(interval);
       }
+    }, 50); // Increased from 40ms to 50ms per step (~3 seconds total animation)
 
-      if (!address || address.length !== 42) {
-        throw new Error("Please enter a valid EVM address");
-      }
+    return () => clearInterval(interval);
+  }, [contractSize, sizeLimitKB]);
 
-      const bytecode = await publicClient.getCode({ address: address as `0x${string}` });
+  const saveToHistory = (entry: HistoryEntry) => {
+    setHistory(prev => [entry, ...prev.filter(item => item.id !== entry.id)]);
+    saveHistoryEntry(entry).catch(e => console.error("Failed to save history entry", e));
+  };
 
-      if (!bytecode || bytecode === "0x") {
-        throw new Error("No contract found at this address");
-      }
+  const addToHistory = (address: AddressType, bytecode: Hex, sizeData: ContractSizeData, blockNumber: bigint) => {
+    const id = getHistoryEntryId(targetNetwork.id, address);
+    // Checking an address again keeps its label and pin
+    const existing = history.find(item => item.id === id);
+    saveToHistory({
+      id,
+      chainId: targetNetwork.id,
+      address,
+      codeHash: keccak256(bytecode),
+      blockNumber: blockNumber.toString(),
+      data: sizeData,
+      label: existing?.label ?? "",
+      pinned: existing?.pinned ?? false,
+      timestamp: Date.now(),
+    });
+  };
 
-      // Remove "0x" prefix and calculate size in bytes, then convert to KB
-      const sizeInBytes = (bytecode.length - 2) / 2;
-      const sizeInKB = sizeInBytes / 1024;
-
-      // Calculate percentage of limit (128KB max)
-      const upperLimit = 128; // 128KB
-      const percentageOfLimit = (sizeInKB / upperLimit) * 100;
-
-      const sizeData = {
-        size: sizeInKB,
-        percentageOfLimit,
-      };
-
-      setContractSize(sizeData);
-
-      // Add to history (avoiding duplicates)
-      const historyItem = {
-        address,
-        data: sizeData,
-        timestamp: Date.now(),
-      };
-
-      setHistory(prev => {
-        // Check if address already exists in history
-        const existingIndex = prev.findIndex(item => item.address.toLowerCase() === address.toLowerCase());
-        if (existingIndex >= 0) {
-          // Update existing item
-          const newHistory = [...prev];
-          newHistory[existingIndex] = historyItem;
-          return newHistory;
-        } else {
-          // Add new item (limit to 10 most recent)
-          return [historyItem, ...prev].slice(0, 10);
-        }
-      });
-    } catch (err: any) {
-      setError(err.message || "Error fetching contract bytecode");
-      setContractSize(null);
-      setShowAnimation(false);
-    } finally {
-      setIsLoading(false);
-    }
+  const deleteFromHistory = (ids: string[]) => {
+    setHistory(prev => prev.filter(item => !ids.includes(item.id)));
+    deleteHistoryEntries(ids).catch(e => console.error("Failed to delete history entries", e));
   };
 
-  const loadFromHistory = (item: HistoryItem) => {
-    setContractAddress(item.address);
-    setContractSize(item.data);
-    setError(null);
+  const checkCreationTransaction = async (client: NonNullable<typeof publicClient>, hash: Hash) => {
+    const lookup = await findContractCreations(client, hash);
+    const blockNumber = await client.getBlockNumber();
+    const creations = await measureContractCreations(client, lookup.creations);
+    setCreationResult({ source: lookup.source, creations });
+
+    // The first created contract drives the size visualization
+    const primaryCreation = creations.find(creation => creation.runtimeCode);
+    if (!primaryCreation?.runtimeCode) return;
+    const sizeData = getContractSizeData(primaryCreation.runtimeCode, getContractSizeLimits(targetNetwork.id));
+    setLoadedResult({
+      chainId: targetNetwork.id,
+      address: primaryCreation.address,
+      sizeData,
+      bytecode: primaryCreation.runtimeCode,
+    });
+    addToHistory(primaryCreation.address, primaryCreation.runtimeCode, sizeData, blockNumber);
   };
 
-  const clearHistory = () => {
-    setHistory([]);
-    localStorage.removeItem("contractSizeHistory");
+  const clearResult = () => {
+    setError(null);
+    resetSizeCheck();
+    setLoadedResult(null);
+    setArtifact(null);
+    setCreationResult(null);
+    setCheckedBlock(null);
   };
 
-  const getGradientClass = (size: number) => {
-    if (size > 128) {
-      return "bg-gradient-to-r from-red-500 to-red-700"; // Exceeded limit
+  const getContractSize = async (input: string, blockInput = pinnedBlock) => {
+    clearResult();
+
+    if (isHash(input)) {
+      setIsCheckingCreation(true);
+      try {
+        if (!publicClient) {
+          throw new Error("No public client found");
+        }
+        await checkCreationTransaction(publicClient, input);
+      } catch (err: any) {
+        setError(err.shortMessage || err.message || "Error fetching contract bytecode");
+      } finally {
+        setIsCheckingCreation(false);
+      }
+      return;
     }
 
-    if (size < 5) {
-      return "bg-gradient-to-r from-red-400 to-red-300"; // Very tiny (< 5KB)
+    const address = input;
+    if (!address || address.length !== 42) {
+      setError("Please enter a valid EVM address or transaction hash");
+      return;
     }
-    if (size < 20) {
-      return "bg-gradient-to-r from-red-300 to-orange-400"; // Small (5-20KB)
+    if (blockInput.trim() && !/^\d+$/.test(blockInput.trim())) {
+      setError("The block number must be an integer");
+      return;
     }
-    if (size < 50) {
-      return "bg-gradient-to-r from-orange-400 to-yellow-500"; // Medium-small (20-50KB)
+    const pinnedBlockNumber = blockInput.trim() ? BigInt(blockInput.trim()) : undefined;
+    setCheckedBlock(pinnedBlockNumber ?? null);
+    try {
+      // Everything is read at one block, so history can record which block the size was measured at
+      const result = await checkSize(address as AddressType, pinnedBlockNumber);
+      // History tracks the current code, so checks pinned to a past block stay out of it
+      if (result.sizeData && pinnedBlockNumber === undefined) {
+        addToHistory(address as AddressType, result.bytecode, result.sizeData, result.blockNumber);
+      }
+    } catch (e) {
+      // The hook keeps the error for display
     }
-    if (size < 100) {
-      return "bg-gradient-to-r from-yellow-500 to-blue-500"; // Approaching optimal (50-100KB)
+  };
+
+  const loadFromHistory = (item: HistoryEntry) => {
+    setNetworkSwitchEntry(null);
+    clearResult();
+    setContractAddress(item.address);
+    setPinnedBlock("");
+    // Measured against the current limits of the chain it was recorded on, which may not be the target network
+    setLoadedResult({
+      chainId: item.chainId,
+      address: item.address,
+      sizeData: {
+        size: item.data.size,
+        percentageOfLimit: ((item.data.size * 1024) / getContractSizeLimits(item.chainId).runtimeCodeLimit) * 100,
+      },
+    });
+  };
+
+  // Artifacts have no address, so they stay out of history
+  const checkArtifact = (contract: BuildArtifactContract) => {
+    clearResult();
+    setContractAddress("");
+    setPinnedBlock("");
+    setArtifact(contract);
+    setLoadedResult({
+      chainId: targetNetwork.id,
+      sizeData: getContractSizeData(contract.runtimeCode, getContractSizeLimits(targetNetwork.id)),
+      bytecode: contract.runtimeCode,
+    });
+  };
+
+  const getResultReport = () =>
+    createSizeReport("result", [
+      {
+        name: artifact?.name,
+        address: resultAddress,
+        chainId: resultChainId,
+        codeHash: bytecode ? keccak256(bytecode) : undefined,
+        blockNumber: checkedBlock?.toString(),
+        size: Math.round((contractSize?.size ?? 0) * 1024),
+        initcodeSize: artifact?.initcodeSize,
+        limit: sizeLimits.runtimeCodeLimit,
+      },
+    ]);
+
+  const requestLoadFromHistory = (item: HistoryEntry) => {
+    setMode("single");
+    if (item.chainId !== targetNetwork.id) {
+      setNetworkSwitchEntry(item);
+      return;
     }
-    if (size < 114) {
-      return "bg-gradient-to-r from-blue-500 to-green-500"; // Good (100-114KB)
+    loadFromHistory(item);
+  };
+
+  const switchNetwork = (chainId: number) => {
+    const network = scaffoldConfig.targetNetworks.find(network => network.id === chainId);
+    if (!network) return;
+    // A connected wallet drives the target network, otherwise it can be switched directly
+    if (isConnected) {
+      switchChain({ chainId: network.id });
+    } else {
+      setTargetNetwork(network);
     }
-    return "bg-gradient-to-r from-green-500 to-emerald-600"; // Excellent (114-128KB)
   };
 
-  // Calculate image scale based on contract size
-  const calculateImageScale = (size: number) => {
-    if (!size) return 0;
-
-    // Start with a small base size for tiny contracts
-    if (size < 5) return 0.1 + (size / 5) * 0.1; // 0.1-0.2 scale for <5KB
-    if (size < 20) return 0.2 + ((size - 5) / 15) * 0.2; // 0.2-0.4 scale for 5-20KB
-    if (size < 50) return 0.4 + ((size - 20) / 30) * 0.3; // 0.4-0.7 scale for 20-50KB
-    if (size < 100) return 0.7 + ((size - 50) / 50) * 0.3; // 0.7-1.0 scale for 50-100KB
-    if (size <= 114) return 2.5 + ((size - 100) / 14) * 0.5; // 2.5-3.0 scale for 100-114KB
-    if (size <= 128) return 3.0 + ((size - 114) / 14) * 1.0; // 3.0-4.0 scale for 114-128KB
-    return 4.5; // Even larger for oversized contracts
+  const switchNetworkAndLoad = (item: HistoryEntry) => {
+    switchNetwork(item.chainId);
+    loadFromHistory(item);
   };
 
+  const copyShareLink = async (address: AddressType) => {
+    const url = `${window.location.origin}/check/${resultChainId}/${address}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      notification.success("Link copied to the clipboard");
+    } catch (e) {
+      notification.error("Couldn't copy to the clipboard");
+    }
+  };
+
+  // A shared result link runs its check once the app is on the link's network
+  useEffect(() => {
+    if (!pendingInitialCheck) return;
+    if (pendingInitialCheck.chainId !== targetNetwork.id) {
+      switchNetwork(pendingInitialCheck.chainId);
+      return;
+    }
+    if (!publicClient) return;
+    setPendingInitialCheck(null);
+    setContractAddress(pendingInitialCheck.address);
+    getContractSize(pendingInitialCheck.address, "");
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pendingInitialCheck, targetNetwork.id, publicClient]);
+
   return (
     <div className="bg-base-200 p-6 rounded-xl w-full relative overflow-hidden">
       {/* Background image that grows with contract size */}
-      {showAnimation && (
+      {mode === "single" && showAnimation && (
         <div className="fixed inset-0 flex items-center justify-center opacity-50 pointer-events-none overflow-hidden z-0">
           <div
             className="transition-transform duration-300 ease-out"
@@ -211,150 +391,304 @@ export const ContractSizeChecker = () => {
         </div>
       )}
 
-      <div className="flex flex-col space-y-4 relative z-10">
-        <div className="flex flex-col md:flex-row gap-4">
-          <input
-            type="text"
-            placeholder="Enter contract address (0x...)"
-            value={contractAddress}
-            onChange={e => setContractAddress(e.target.value)}
-            className="input input-bordered w-full"
-          />
+      <div role="tablist" className="tabs tabs-boxed mb-4 relative z-10">
+        {CHECKER_MODES.map(({ mode: tabMode, label }) => (
           <button
-            className="btn btn-primary whitespace-nowrap"
-            onClick={() => getContractSize(contractAddress)}
-            disabled={isLoading}
+            key={tabMode}
+            role="tab"
+            className={`tab ${mode === tabMode ? "tab-active" : ""}`}
+            onClick={() => setMode(tabMode)}
           >
-            {isLoading ? "Checking..." : "Check Size"}
+            {label}
           </button>
-        </div>
+        ))}
       </div>
 
-      {error && <div className="alert alert-error my-4 relative z-10">{error}</div>}
-
-      {contractSize && (
-        <div className="space-y-6 mt-6 relative z-10">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div className="stat bg-base-100 rounded-box shadow">
-              <div className="stat-title">Contract Size</div>
-              <div className="stat-value">{contractSize.size.toFixed(2)} KB</div>
-              <div className="stat-desc">
-                {contractSize.size > 128
-                  ? "Exceeds limit!"
-                  : contractSize.size < 100
-                    ? "Below optimal range"
-                    : "Within optimal range"}
-              </div>
-            </div>
+      {/* Kept mounted so results survive switching tabs */}
+      <div className={mode === "batch" ? "relative z-10" : "hidden"}>
+        <BatchSizeChecker />
+      </div>
+      <div className={mode === "cross-network" ? "relative z-10" : "hidden"}>
+        <CrossNetworkSizeChecker />
+      </div>
+      <div className={mode === "compare" ? "relative z-10" : "hidden"}>
+        <BytecodeDiffChecker />
+        {/* Upgrades that change the code size often change the storage too */}
+        <div className="divider" />
+        <StorageLayoutChecker />
+      </div>
+      <div className={mode === "dry-run" ? "relative z-10" : "hidden"}>
+        <DryRunSizeChecker />
+      </div>
+      <div className={mode === "probe" ? "relative z-10" : "hidden"}>
+        <SizeLimitProbe />
+      </div>
+      <div className={mode === "reports" ? "relative z-10" : "hidden"}>
+        <ReportComparison />
+      </div>
+      <div className={mode === "timeline" ? "relative z-10" : "hidden"}>
+        <TimelineSizeChecker
+          onCheckAtBlock={(address, blockNumber) => {
+            setMode("single");
+            setContractAddress(address);
+            setPinnedBlock(blockNumber.toString());
+            getContractSize(address, blockNumber.toString());
+          }}
+        />
+      </div>
 
-            <div className="stat bg-base-100 rounded-box shadow">
-              <div className="stat-title">Percentage</div>
-              <div className="stat-value">{contractSize.percentageOfLimit.toFixed(1)}%</div>
-              <div className="stat-desc">128KB</div>
+      {mode === "single" && (
+        <>
+          <div className="flex flex-col space-y-4 relative z-10">
+            <div className="flex flex-col md:flex-row gap-4">
+              <input
+                type="text"
+                placeholder="Enter contract address or creation tx hash (0x...)"
+                value={contractAddress}
+                onChange={e => setContractAddress(e.target.value)}
+                className="input input-bordered w-full"
+              />
+              <input
+                type="text"
+                inputMode="numeric"
+                placeholder="Block (latest)"
+                value={pinnedBlock}
+                onChange={e => setPinnedBlock(e.target.value)}
+                className="input input-bordered md:w-40"
+              />
+              <button
+                className="btn btn-primary whitespace-nowrap"
+                onClick={() => getContractSize(contractAddress)}
+                disabled={isLoading}
+              >
+                {isLoading ? "Checking..." : "Check Size"}
+              </button>
             </div>
           </div>
 
-          {/* Size visualization */}
-          <div className="space-y-2">
-            <div className="flex relative text-sm">
-              <span>0 KB</span>
-              <span className="text-blue-500 absolute left-[78.125%] transform -translate-x-1/2">100 KB</span>
-              <span className="text-green-500 absolute right-0">128 KB</span>
+          <div className="mt-4 relative z-10">
+            <BuildArtifactDropZone onSelect={checkArtifact} />
+          </div>
+
+          {resultError && <div className="alert alert-error my-4 relative z-10">{resultError}</div>}
+
+          {artifact && (
+            <div className="mt-6 relative z-10">
+              <BuildArtifactResult contract={artifact} limits={sizeLimits} />
             </div>
-            <div className="h-6 bg-base-100 rounded-sm overflow-hidden w-full">
-              {/* Background scale markers */}
-              <div className="h-full w-full relative">
-                <div className="absolute h-full w-[78.125%] border-r-2 border-blue-500"></div> {/* 100KB mark */}
-                <div className="absolute h-full w-full border-r-2 border-green-500"></div> {/* 128KB mark */}
-                {/* Actual size bar */}
-                <div
-                  className={`h-full ${getGradientClass(contractSize.size)}`}
-                  style={{
-                    width: `${contractSize.percentageOfLimit}%`,
-                    transition: "width 0.5s ease-in-out",
-                  }}
-                ></div>
-              </div>
+          )}
+
+          {creationResult && (
+            <div className="mt-6 relative z-10">
+              <CreationSizeResult
+                creations={creationResult.creations}
+                source={creationResult.source}
+                limits={sizeLimits}
+              />
             </div>
-          </div>
+          )}
+
+          {addressClassification && (
+            <div className="mt-6 relative z-10">
+              <AddressClassificationResult
+                classification={addressClassification}
+                onCheckAddress={delegateAddress => {
+                  setContractAddress(delegateAddress);
+                  getContractSize(delegateAddress);
+                }}
+              />
+            </div>
+          )}
+
+          {proxyResolution && (
+            <div className="mt-6 relative z-10">
+              <ProxySizeResult
+                resolution={proxyResolution}
+                limits={sizeLimits}
+                onCheckAddress={implementationAddress => {
+                  setContractAddress(implementationAddress);
+                  getContractSize(implementationAddress);
+                }}
+              />
+            </div>
+          )}
+
+          {contractSize && (
+            <div className="space-y-6 mt-6 relative z-10">
+              <div className="flex justify-end gap-2">
+                {/* Links show the current code at an address, so artifacts and past blocks can't be shared */}
+                {resultAddress && checkedBlock === null && (
+                  <button className="btn btn-sm btn-outline" onClick={() => copyShareLink(resultAddress)}>
+                    Copy link
+                  </button>
+                )}
+                <ReportExportButtons getReport={getResultReport} fileName="contract-size" />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="stat bg-base-100 rounded-box shadow">
+                  <div className="stat-title">Contract Size</div>
+                  <div className="stat-value">{contractSize.size.toFixed(2)} KB</div>
+                  <div className="stat-desc">{sizeStatus && SIZE_STATUS_LABELS[sizeStatus]}</div>
+                </div>
+
+                <div className="stat bg-base-100 rounded-box shadow">
+                  <div className="stat-title">Percentage</div>
+                  <div className="stat-value">{contractSize.percentageOfLimit.toFixed(1)}%</div>
+                  <div className="stat-desc">
+                    {formatKB(sizeLimits.runtimeCodeLimit)} on {resultChainName}
+                    {checkedBlock !== null && ` at block ${checkedBlock.toString()}`}
+                  </div>
+                </div>
+              </div>
 
-          {/* Recommendation */}
-          <div className="mt-6 bg-base-100 p-4 rounded-lg">
-            <h3 className="text-lg font-semibold mb-2">Recommendation</h3>
-            {contractSize.size <= 128 && contractSize.size >= 100 && (
-              <p className="text-green-500">
-                Your contract is optimally sized! It&apos;s within the ideal range of 100-128KB.
-              </p>
-            )}
-            {contractSize.size < 100 && (
-              <div
-                className={
-                  contractSize.size < 5 ? "text-red-500" : contractSize.size < 20 ? "text-orange-500" : "text-blue-500"
-                }
-              >
-                {contractSize.size < 5 && (
-                  <>
-                    This contract is extremely smol ({contractSize.size.toFixed(2)}KB)!
-                    <ul className="list-disc ml-6 mt-2 text-sm"></ul>
-                  </>
+              {/* Size visualization */}
+              <div className="space-y-2">
+                <div className="flex relative text-sm">
+                  <span>0 KB</span>
+                  {sizeLimits.targetBand && (
+                    <span
+                      className="text-blue-500 absolute transform -translate-x-1/2"
+                      style={{ left: `${targetBandPercentage}%` }}
+                    >
+                      {formatKB(sizeLimits.targetBand.min)}
+                    </span>
+                  )}
+                  <span className="text-green-500 absolute right-0">{formatKB(sizeLimits.runtimeCodeLimit)}</span>
+                </div>
+                <div className="h-6 bg-base-100 rounded-sm overflow-hidden w-full">
+                  {/* Background scale markers */}
+                  <div className="h-full w-full relative">
+                    {targetBandPercentage !== undefined && (
+                      <div
+                        className="absolute h-full border-r-2 border-blue-500"
+                        style={{ width: `${targetBandPercentage}%` }}
+                      ></div>
+                    )}
+                    <div className="absolute h-full w-full border-r-2 border-green-500"></div> {/* Limit mark */}
+                    {/* Actual size bar */}
+                    <div
+                      className={`h-full ${getGradientClass(contractSize.size, sizeLimits)}`}
+                      style={{
+                        width: `${contractSize.percentageOfLimit}%`,
+                        transition: "width 0.5s ease-in-out",
+                      }}
+                    ></div>
+                  </div>
+                </div>
+                {bytecode && <BytecodeAnatomy bytecode={bytecode} />}
+              </div>
+
+              {bytecode && <FunctionSizeBreakdown bytecode={bytecode} />}
+
+              {bytecode && (
+                <DeploymentCostEstimate
+                  bytecode={bytecode}
+                  initcodeSize={
+                    artifact?.initcodeSize ??
+                    creationResult?.creations.find(creation => creation.runtimeCode === bytecode)?.initcodeSize
+                  }
+                />
+              )}
+
+              {/* Recommendation */}
+              <div className="mt-6 bg-base-100 p-4 rounded-lg">
+                <h3 className="text-lg font-semibold mb-2">Recommendation</h3>
+                {sizeStatus === "exceeds" && (
+                  <p className="text-red-500">
+                    Your contract exceeds the {limitLabel} limit of {resultChainName} by{" "}
+                    {(contractSize.size - sizeBands.limit).toFixed(2)}KB and can&apos;t be deployed there.
+                  </p>
                 )}
-                {contractSize.size >= 5 && contractSize.size < 20 && (
-                  <>
-                    Your contract is quite smol ({contractSize.size.toFixed(2)}KB). There&apos;s significant room to add
-                    more functionality while staying well below the 128KB limit.
-                  </>
+                {sizeStatus === "optimal" && (
+                  <p className="text-green-500">
+                    Your contract is optimally sized! It&apos;s within the ideal range of {targetBandLabel}.
+                  </p>
                 )}
-                {contractSize.size >= 20 && (
-                  <>
-                    Your contract is smaller than the optimal range ({contractSize.size.toFixed(2)}KB vs 100-128KB). You
-                    could add more features while still staying under the 128KB limit.
-                  </>
+                {(sizeStatus === "below" || sizeStatus === "within") && (
+                  <div
+                    className={
+                      contractSize.size < sizeBands.tiny
+                        ? "text-red-500"
+                        : contractSize.size < sizeBands.small
+                          ? "text-orange-500"
+                          : "text-blue-500"
+                    }
+                  >
+                    {contractSize.size < sizeBands.tiny && (
+                      <>
+                        This contract is extremely smol ({contractSize.size.toFixed(2)}KB)!
+                        <ul className="list-disc ml-6 mt-2 text-sm"></ul>
+                      </>
+                    )}
+                    {contractSize.size >= sizeBands.tiny && contractSize.size < sizeBands.small && (
+                      <>
+                        Your contract is quite smol ({contractSize.size.toFixed(2)}KB). There&apos;s significant room to
+                        add more functionality while staying well below the {limitLabel} limit.
+                      </>
+                    )}
+                    {contractSize.size >= sizeBands.small && sizeStatus === "below" && (
+                      <>
+                        Your contract is smaller than the optimal range ({contractSize.size.toFixed(2)}KB vs{" "}
+                        {targetBandLabel}). You could add more features while still staying under the {limitLabel}{" "}
+                        limit.
+                      </>
+                    )}
+                    {contractSize.size >= sizeBands.small && sizeStatus === "within" && (
+                      <>
+                        Your contract fits ({contractSize.size.toFixed(2)}KB), leaving{" "}
+                        {(sizeBands.limit - contractSize.size).toFixed(2)}KB of headroom under the {limitLabel} limit.
+                      </>
+                    )}
+                  </div>
                 )}
+                {bytecode && <SizeOptimizationAdvice bytecode={bytecode} />}
               </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* History Section */}
+      {networkSwitchEntry && (
+        <div className="alert alert-warning mt-8 relative z-10 flex-col items-start">
+          <p className="m-0">
+            This contract was checked on {getChainName(networkSwitchEntry.chainId)}, you&apos;re on {targetNetwork.name}
+            .
+          </p>
+          <div className="flex gap-2">
+            {scaffoldConfig.targetNetworks.some(network => network.id === networkSwitchEntry.chainId) && (
+              <button className="btn btn-sm btn-primary" onClick={() => switchNetworkAndLoad(networkSwitchEntry)}>
+                Switch to {getChainName(networkSwitchEntry.chainId)}
+              </button>
             )}
+            <button className="btn btn-sm btn-outline" onClick={() => loadFromHistory(networkSwitchEntry)}>
+              Load anyway
+            </button>
+            <button className="btn btn-sm btn-ghost" onClick={() => setNetworkSwitchEntry(null)}>
+              Cancel
+            </button>
           </div>
         </div>
       )}
 
-      {/* History Section */}
       {history.length > 0 && (
-        <div className="mt-8 bg-base-100 p-4 rounded-lg relative z-10">
-          <div className="flex justify-between items-center mb-4">
-            <h3 className="text-lg font-semibold">History</h3>
-            <button onClick={clearHistory} className="btn btn-sm btn-outline btn-error">
-              Clear History
-            </button>
-          </div>
-          <div className="overflow-x-auto">
-            <table className="table table-compact w-full">
-              <thead>
-                <tr>
-                  <th>Address</th>
-                  <th>Size</th>
-                  <th>Percentage</th>
-                  <th></th>
-                </tr>
-              </thead>
-              <tbody>
-                {history.map(item => (
-                  <tr key={item.address} className="hover">
-                    <td className="font-mono text-xs truncate max-w-[170px]">
-                      <Address address={item.address} />
-                    </td>
-                    <td>{item.data.size.toFixed(2)} KB</td>
-                    <td>{item.data.percentageOfLimit.toFixed(1)}%</td>
-                    <td>
-                      <button onClick={() => loadFromHistory(item)} className="btn btn-xs btn-secondary">
-                        Load
-                      </button>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
+        <div className="mt-8 relative z-10">
+          <SizeHistory
+            entries={history}
+            onLoad={requestLoadFromHistory}
+            onUpdate={saveToHistory}
+            onDelete={deleteFromHistory}
+          />
         </div>
       )}
+
+      <div className="mt-8 relative z-10">
+        <WatchList
+          checkedAddress={
+            mode === "single" && contractSize && resultChainId === targetNetwork.id ? resultAddress : undefined
+          }
+        />
+      </div>
     </div>
   );
 };
@@ -0,0 +1,81 @@
+import { Address as AddressType, formatEther } from "viem";
+import { Address } from "~~/components/scaffold-eth";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { AddressClassification } from "~~/utils/contract-size";
+
+type AddressClassificationResultProps = {
+  classification: Exclude<AddressClassification, { kind: "contract" }>;
+  onCheckAddress: (address: AddressType) => void;
+};
+
+/**
+ * Explains what lives at an address that doesn't hold regular contract code, and what to check next
+ */
+export const AddressClassificationResult = ({ classification, onCheckAddress }: AddressClassificationResultProps) => {
+  const { targetNetwork } = useTargetNetwork();
+
+  const formatBalance = (balance: bigint) => `${formatEther(balance)} ${targetNetwork.nativeCurrency.symbol}`;
+
+  switch (classification.kind) {
+    case "eoa":
+      return (
+        <div className="alert alert-warning flex-col items-start">
+          <p className="font-semibold m-0">This is an externally owned account (EOA), not a contract</p>
+          <p className="text-sm m-0">
+            Nonce: {classification.nonce} · Balance: {formatBalance(classification.balance)}
+          </p>
+          <p className="text-sm m-0">
+            Next step: if you deployed from this account, check the creation transaction hash or the deployed address
+            instead.
+          </p>
+        </div>
+      );
+    case "delegated-eoa":
+      return (
+        <div className="alert alert-info flex-col items-start">
+          <p className="font-semibold m-0">This is an EIP-7702 delegated EOA</p>
+          <p className="text-sm m-0 flex flex-wrap items-center gap-1">
+            It runs the code of <Address address={classification.delegate} size="sm" />
+          </p>
+          <p className="text-sm m-0">
+            Nonce: {classification.nonce} · Balance: {formatBalance(classification.balance)}
+          </p>
+          <button className="btn btn-sm btn-secondary" onClick={() => onCheckAddress(classification.delegate)}>
+            Check the delegate target
+          </button>
+        </div>
+      );
+    case "precompile":
+      return (
+        <div className="alert alert-info flex-col items-start">
+          <p className="font-semibold m-0">This is the {classification.name} precompile</p>
+          <p className="text-sm m-0">
+            Precompiles are implemented natively by the client, they have no bytecode to measure.
+          </p>
+        </div>
+      );
+    case "system":
+      return (
+        <div className="alert alert-info flex-col items-start">
+          <p className="font-semibold m-0">{classification.name}</p>
+          <p className="text-sm m-0">
+            This is a known system address. If it holds code, its size is shown below; it isn&apos;t subject to the
+            usual deployment rules.
+          </p>
+        </div>
+      );
+    case "empty":
+      return (
+        <div className="alert alert-error flex-col items-start">
+          <p className="font-semibold m-0">No contract found at this address</p>
+          <p className="text-sm m-0">
+            It has no code, no transactions and no balance on {targetNetwork.name}: the contract was never deployed
+            here, or it self-destructed.
+          </p>
+          <p className="text-sm m-0">
+            Next step: make sure you&apos;re on the right network, or check the creation transaction hash.
+          </p>
+        </div>
+      );
+  }
+};
@@ -0,0 +1,272 @@
+"use client";
+
+import { ChangeEvent, useMemo, useRef, useState } from "react";
+import { ReportExportButtons } from "./ReportExportButtons";
+import { Address as AddressType } from "viem";
+import { usePublicClient } from "wagmi";
+import { ChevronDownIcon, ChevronUpIcon } from "@heroicons/react/24/outline";
+import { Address } from "~~/components/scaffold-eth";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+import {
+  SizeStatus,
+  checkContractSize,
+  createSizeReport,
+  describeSizeCheck,
+  getContractSizeLimits,
+  getSizeStatus,
+  mapWithConcurrency,
+  parseAddressList,
+} from "~~/utils/contract-size";
+
+type BatchStatus = SizeStatus | "no-code" | "error";
+
+type BatchResult = {
+  address: string;
+  size?: number;
+  percentageOfLimit?: number;
+  status: BatchStatus;
+  // What the address is when it isn't a plain contract: a proxy, an EOA, a precompile...
+  note?: string;
+  error?: string;
+};
+
+type SortKey = "address" | "size" | "percentageOfLimit" | "status";
+
+const DEFAULT_CONCURRENCY = 5;
+
+const STATUS_BADGES: Record<BatchStatus, { label: string; className: string }> = {
+  exceeds: { label: "Exceeds limit", className: "badge-error" },
+  optimal: { label: "Optimal", className: "badge-success" },
+  below: { label: "Below optimal", className: "badge-info" },
+  within: { label: "Within limit", className: "badge-success badge-outline" },
+  "no-code": { label: "No contract", className: "badge-warning" },
+  error: { label: "Error", className: "badge-error badge-outline" },
+};
+
+/**
+ * Checks the size of many addresses at once, from a pasted list or an uploaded CSV/TXT file
+ */
+export const BatchSizeChecker = () => {
+  const [input, setInput] = useState<string>("");
+  const [concurrency, setConcurrency] = useState<number>(DEFAULT_CONCURRENCY);
+  const [results, setResults] = useState<BatchResult[]>([]);
+  const [progress, setProgress] = useState<{ completed: number; total: number }>({ completed: 0, total: 0 });
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: "size", ascending: false });
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const sizeLimits = useMemo(() => getContractSizeLimits(targetNetwork.id), [targetNetwork.id]);
+
+  const parsedInput = useMemo(() => parseAddressList(input), [input]);
+
+  const handleFileUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    setInput(prev => (prev.trim() ? `${prev.trim()}\n${text}` : text));
+    e.target.value = "";
+  };
+
+  const checkAddress = async (client: NonNullable<typeof publicClient>, address: string): Promise<BatchResult> => {
+    try {
+      const check = await checkContractSize(client, address as AddressType, { limits: sizeLimits });
+      if (!check.sizeData) {
+        return { address, status: "no-code", note: describeSizeCheck(check) };
+      }
+      return {
+        address,
+        ...check.sizeData,
+        status: getSizeStatus(check.sizeData.size, sizeLimits),
+        note: describeSizeCheck(check),
+      };
+    } catch (err: any) {
+      return { address, status: "error", error: err.shortMessage || err.message || "Error fetching contract bytecode" };
+    }
+  };
+
+  const runBatch = async () => {
+    setError(null);
+    if (!publicClient) {
+      setError("No public client found");
+      return;
+    }
+    if (parsedInput.addresses.length === 0) {
+      setError("Please enter at least one valid EVM address");
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsRunning(true);
+    setResults([]);
+    setProgress({ completed: 0, total: parsedInput.addresses.length });
+
+    try {
+      await mapWithConcurrency(
+        parsedInput.addresses,
+        concurrency,
+        async address => {
+          const result = await checkAddress(publicClient, address);
+          if (!abortController.signal.aborted) {
+            setResults(prev => [...prev, result]);
+          }
+          return result;
+        },
+        {
+          signal: abortController.signal,
+          onProgress: (completed, total) => setProgress({ completed, total }),
+        },
+      );
+    } finally {
+      setIsRunning(false);
+      abortControllerRef.current = null;
+    }
+  };
+
+  const cancelBatch = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => ({ key, ascending: prev.key === key ? !prev.ascending : key === "address" || key === "status" }));
+  };
+
+  const sortedResults = useMemo(() => {
+    const direction = sort.ascending ? 1 : -1;
+    return [...results].sort((a, b) => {
+      const aValue = a[sort.key];
+      const bValue = b[sort.key];
+      // Rows without a size (errors, missing code) always go last
+      if (aValue === undefined) return 1;
+      if (bValue === undefined) return -1;
+      if (typeof aValue === "number" && typeof bValue === "number") return (aValue - bValue) * direction;
+      return String(aValue).localeCompare(String(bValue)) * direction;
+    });
+  }, [results, sort]);
+
+  const getReport = () =>
+    createSizeReport(
+      "batch",
+      sortedResults.flatMap(result =>
+        result.size !== undefined
+          ? [
+              {
+                address: result.address as `0x${string}`,
+                chainId: targetNetwork.id,
+                size: Math.round(result.size * 1024),
+                limit: sizeLimits.runtimeCodeLimit,
+              },
+            ]
+          : [],
+      ),
+    );
+
+  const renderSortableHeader = (label: string, sortKey: SortKey) => (
+    <th key={sortKey} className="cursor-pointer select-none" onClick={() => toggleSort(sortKey)}>
+      <span className="flex items-center gap-1">
+        {label}
+        {sort.key === sortKey &&
+          (sort.ascending ? <ChevronUpIcon className="h-3 w-3" /> : <ChevronDownIcon className="h-3 w-3" />)}
+      </span>
+    </th>
+  );
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <textarea
+        placeholder="Paste addresses (one per line, or comma separated)"
+        value={input}
+        onChange={e => setInput(e.target.value)}
+        className="textarea textarea-bordered w-full h-32 font-mono text-xs"
+        disabled={isRunning}
+      />
+      <div className="flex flex-col md:flex-row md:items-center gap-4">
+        <input
+          type="file"
+          accept=".csv,.txt,text/csv,text/plain"
+          onChange={handleFileUpload}
+          className="file-input file-input-bordered file-input-sm w-full md:w-auto"
+          disabled={isRunning}
+        />
+        <label className="flex items-center gap-2 text-sm">
+          Concurrency
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={concurrency}
+            onChange={e => setConcurrency(Math.min(20, Math.max(1, Number(e.target.value) || 1)))}
+            className="input input-bordered input-sm w-20"
+            disabled={isRunning}
+          />
+        </label>
+        <div className="flex-grow text-sm opacity-70">
+          {parsedInput.addresses.length} address{parsedInput.addresses.length === 1 ? "" : "es"}
+          {parsedInput.invalid.length > 0 && `, ${parsedInput.invalid.length} invalid ignored`}
+        </div>
+        {isRunning ? (
+          <button className="btn btn-outline btn-error whitespace-nowrap" onClick={cancelBatch}>
+            Cancel
+          </button>
+        ) : (
+          <button className="btn btn-primary whitespace-nowrap" onClick={runBatch}>
+            Check Sizes
+          </button>
+        )}
+      </div>
+
+      {error && <div className="alert alert-error">{error}</div>}
+
+      {progress.total > 0 && (
+        <div className="space-y-1">
+          <progress className="progress progress-primary w-full" value={progress.completed} max={progress.total} />
+          <div className="text-xs text-right">
+            {progress.completed} / {progress.total}
+          </div>
+        </div>
+      )}
+
+      {results.length > 0 && !isRunning && (
+        <div className="flex justify-end">
+          <ReportExportButtons getReport={getReport} fileName="batch-sizes" />
+        </div>
+      )}
+
+      {results.length > 0 && (
+        <div className="overflow-x-auto bg-base-100 rounded-lg">
+          <table className="table table-compact w-full">
+            <thead>
+              <tr>
+                {renderSortableHeader("Address", "address")}
+                {renderSortableHeader("Size", "size")}
+                {renderSortableHeader("Percentage", "percentageOfLimit")}
+                {renderSortableHeader("Status", "status")}
+              </tr>
+            </thead>
+            <tbody>
+              {sortedResults.map(result => (
+                <tr key={result.address} className="hover">
+                  <td className="font-mono text-xs truncate max-w-[170px]">
+                    <Address address={result.address} />
+                  </td>
+                  <td>{result.size !== undefined ? `${result.size.toFixed(2)} KB` : "-"}</td>
+                  <td>{result.percentageOfLimit !== undefined ? `${result.percentageOfLimit.toFixed(1)}%` : "-"}</td>
+                  <td>
+                    <span className={`badge badge-sm ${STATUS_BADGES[result.status].className}`}>
+                      {STATUS_BADGES[result.status].label}
+                    </span>
+                    {result.note && <div className="text-xs opacity-70 mt-1 max-w-xs break-words">{result.note}</div>}
+                    {result.error && <div className="text-xs text-error mt-1 max-w-xs break-words">{result.error}</div>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
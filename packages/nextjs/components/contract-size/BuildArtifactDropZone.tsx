@@ -0,0 +1,91 @@
+"use client";
+
+import { ChangeEvent, DragEvent, useState } from "react";
+import { BuildArtifactContract, formatKB, parseBuildArtifact } from "~~/utils/contract-size";
+
+type BuildArtifactDropZoneProps = {
+  onSelect: (contract: BuildArtifactContract) => void;
+};
+
+/**
+ * Drop zone for local build artifacts, to measure contracts before deploying them. Files with several contracts
+ * (solc output, build-info) let the user pick one.
+ */
+export const BuildArtifactDropZone = ({ onSelect }: BuildArtifactDropZoneProps) => {
+  const [contracts, setContracts] = useState<BuildArtifactContract[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState<number>(0);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFiles = async (files: File[]) => {
+    setError(null);
+    const loaded: BuildArtifactContract[] = [];
+    for (const file of files) {
+      try {
+        loaded.push(...parseBuildArtifact(await file.text(), file.name));
+      } catch (err: any) {
+        setError(`${file.name}: ${err.message}`);
+      }
+    }
+    if (loaded.length === 0) return;
+
+    // Largest first, they're the ones closest to the limit
+    setContracts(loaded.sort((a, b) => b.runtimeSize - a.runtimeSize));
+    setSelectedIndex(0);
+    onSelect(loaded[0]);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    loadFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleFileUpload = (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    loadFiles(files);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label
+        className={`flex flex-col items-center justify-center border-2 border-dashed rounded-lg p-4 cursor-pointer text-sm ${
+          isDragging ? "border-primary bg-base-100" : "border-base-300"
+        }`}
+        onDragOver={e => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        <span>Or drop a build artifact to measure it before deploying</span>
+        <span className="text-xs opacity-70">
+          Hardhat artifact or build-info, Foundry <code>out/*.json</code>, solc standard JSON output
+        </span>
+        <input type="file" multiple accept=".json,application/json" onChange={handleFileUpload} className="hidden" />
+      </label>
+
+      {error && <div className="alert alert-error">{error}</div>}
+
+      {contracts.length > 1 && (
+        <select
+          className="select select-bordered select-sm w-full"
+          value={selectedIndex}
+          onChange={e => {
+            setSelectedIndex(Number(e.target.value));
+            onSelect(contracts[Number(e.target.value)]);
+          }}
+        >
+          {contracts.map((contract, index) => (
+            <option key={`${contract.sourceName}:${contract.name}:${index}`} value={index}>
+              {contract.sourceName ? `${contract.sourceName}:` : ""}
+              {contract.name} ({formatKB(contract.runtimeSize)})
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
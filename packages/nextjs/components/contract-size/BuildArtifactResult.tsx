@@ -0,0 +1,44 @@
+import { SizeBar } from "./SizeBar";
+import { ContractSizeLimits } from "~~/scaffold.config";
+import { BuildArtifactContract, BuildArtifactFormat } from "~~/utils/contract-size";
+
+type BuildArtifactResultProps = {
+  contract: BuildArtifactContract;
+  limits: ContractSizeLimits;
+};
+
+const FORMAT_LABELS: Record<BuildArtifactFormat, string> = {
+  hardhat: "Hardhat artifact",
+  foundry: "Foundry artifact",
+  solc: "solc output",
+};
+
+/**
+ * Initcode and runtime sizes of a contract from a local build artifact
+ */
+export const BuildArtifactResult = ({ contract, limits }: BuildArtifactResultProps) => {
+  return (
+    <div className="bg-base-100 p-4 rounded-lg space-y-3">
+      <div className="flex justify-between items-center gap-2">
+        <h3 className="text-lg font-semibold m-0 break-all">{contract.name}</h3>
+        <span className="badge badge-sm badge-outline whitespace-nowrap">{FORMAT_LABELS[contract.format]}</span>
+      </div>
+      {contract.sourceName && <div className="text-xs opacity-70 break-all">{contract.sourceName}</div>}
+      <SizeBar label="Initcode" size={contract.initcodeSize} limit={limits.initcodeLimit} />
+      <SizeBar label="Runtime code" size={contract.runtimeSize} limit={limits.runtimeCodeLimit} />
+      {contract.unlinkedLibraries.length > 0 && (
+        <div className="text-sm text-warning">
+          Libraries to link: {contract.unlinkedLibraries.join(", ")}. Linking replaces their placeholders with addresses
+          of the same length, so the sizes don&apos;t change.
+        </div>
+      )}
+      <p className="text-xs opacity-70 m-0">
+        {contract.immutableReferenceCount === undefined
+          ? "This artifact doesn't locate immutables, they are measured as the zeros the compiler leaves for them. "
+          : contract.immutableReferenceCount > 0 &&
+            `Immutables (${contract.immutableReferenceCount} references) are written by the constructor, their bytes are counted in the runtime size. `}
+        The initcode excludes constructor arguments.
+      </p>
+    </div>
+  );
+};
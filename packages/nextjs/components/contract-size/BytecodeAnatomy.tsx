@@ -0,0 +1,69 @@
+import { useMemo } from "react";
+import { Hex } from "viem";
+import { formatKB, getBytecodeAnatomy } from "~~/utils/contract-size";
+
+type BytecodeAnatomyProps = {
+  bytecode: Hex;
+};
+
+/**
+ * Stacked bar showing how the runtime bytecode splits into executable code, data and compiler metadata
+ */
+export const BytecodeAnatomy = ({ bytecode }: BytecodeAnatomyProps) => {
+  const anatomy = useMemo(() => getBytecodeAnatomy(bytecode), [bytecode]);
+
+  const sections = [
+    { label: "Executable code", size: anatomy.executableSize, className: "bg-primary" },
+    { label: "Data", size: anatomy.dataSize, className: "bg-accent" },
+    { label: "Metadata", size: anatomy.metadataSize, className: "bg-neutral" },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex h-4 rounded-sm overflow-hidden w-full bg-base-100">
+        {sections.map(
+          section =>
+            section.size > 0 && (
+              <div
+                key={section.label}
+                className={`h-full ${section.className}`}
+                style={{ width: `${(section.size / anatomy.totalSize) * 100}%` }}
+                title={`${section.label}: ${section.size} bytes`}
+              ></div>
+            ),
+        )}
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+        {sections.map(section => (
+          <span key={section.label} className="flex items-center gap-1">
+            <span className={`inline-block w-3 h-3 rounded-sm ${section.className}`}></span>
+            {section.label}: {formatKB(section.size)} ({section.size} bytes)
+          </span>
+        ))}
+      </div>
+      {anatomy.metadata && (
+        <div className="text-xs space-y-1 bg-base-100 p-3 rounded-lg">
+          <div>
+            <span className="font-semibold">Compiler:</span> {anatomy.metadata.compiler}
+            {anatomy.metadata.compilerVersion && ` ${anatomy.metadata.compilerVersion}`}
+          </div>
+          {anatomy.metadata.ipfs && (
+            <div className="break-all">
+              <span className="font-semibold">IPFS:</span> {anatomy.metadata.ipfs}
+            </div>
+          )}
+          {(anatomy.metadata.bzzr1 || anatomy.metadata.bzzr0) && (
+            <div className="break-all">
+              <span className="font-semibold">Swarm:</span> {anatomy.metadata.bzzr1 ?? anatomy.metadata.bzzr0}
+            </div>
+          )}
+          {anatomy.metadata.experimental !== undefined && (
+            <div>
+              <span className="font-semibold">Experimental:</span> {anatomy.metadata.experimental ? "yes" : "no"}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
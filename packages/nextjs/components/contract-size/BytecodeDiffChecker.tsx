@@ -0,0 +1,288 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Address as AddressType, Hex, isAddress } from "viem";
+import { getPublicClient } from "wagmi/actions";
+import scaffoldConfig from "~~/scaffold.config";
+import { wagmiConfig } from "~~/services/web3/wagmiConfig";
+import {
+  DiffLine,
+  diffBytecode,
+  formatInstruction,
+  formatKB,
+  getChainName,
+  getSelectorNames,
+} from "~~/utils/contract-size";
+
+type DiffSide = {
+  address: string;
+  chainId: number;
+  // Empty for the latest block
+  blockNumber: string;
+};
+
+// Beyond this the page gets sluggish, and the diff of unrelated contracts isn't worth reading anyway
+const MAX_RENDERED_LINES = 3000;
+
+const SIDE_LABELS = ["Before", "After"] as const;
+
+const LINE_CLASSES: Record<DiffLine["kind"], string> = {
+  equal: "",
+  removed: "bg-error/20",
+  added: "bg-success/20",
+};
+
+const LINE_PREFIXES: Record<DiffLine["kind"], string> = {
+  equal: " ",
+  removed: "-",
+  added: "+",
+};
+
+const formatDelta = (delta: number) => (delta === 0 ? "-" : `${delta > 0 ? "+" : "-"}${formatKB(Math.abs(delta))}`);
+
+const getDeltaClass = (delta: number) => (delta > 0 ? "text-error" : delta < 0 ? "text-success" : "");
+
+const fetchBytecode = async ({ address, chainId, blockNumber }: DiffSide, label: string) => {
+  if (!isAddress(address, { strict: false })) {
+    throw new Error(`${label}: please enter a valid EVM address`);
+  }
+  const client = getPublicClient(wagmiConfig, { chainId: chainId as (typeof wagmiConfig)["chains"][number]["id"] });
+  const bytecode = await client.getCode({
+    address: address as AddressType,
+    blockNumber: blockNumber.trim() ? BigInt(blockNumber.trim()) : undefined,
+  });
+  if (!bytecode || bytecode === "0x") {
+    throw new Error(`${label}: no contract found at this address`);
+  }
+  return bytecode;
+};
+
+/**
+ * Opcode-level diff of the code at two addresses, each on any target network and at any block,
+ * with size deltas per section and per function selector
+ */
+export const BytecodeDiffChecker = () => {
+  const [sides, setSides] = useState<[DiffSide, DiffSide]>(() => {
+    const chainId = scaffoldConfig.targetNetworks[0].id;
+    return [
+      { address: "", chainId, blockNumber: "" },
+      { address: "", chainId, blockNumber: "" },
+    ];
+  });
+  // The sides as they were when compared, so editing the inputs doesn't relabel the result
+  const [compared, setCompared] = useState<{ sides: [DiffSide, DiffSide]; bytecodes: [Hex, Hex] } | null>(null);
+  const [ignoreMetadata, setIgnoreMetadata] = useState<boolean>(true);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const diff = useMemo(
+    () => (compared ? diffBytecode(compared.bytecodes[0], compared.bytecodes[1], { ignoreMetadata }) : null),
+    [compared, ignoreMetadata],
+  );
+  const selectorNames = useMemo(() => getSelectorNames(), []);
+
+  const updateSide = (index: 0 | 1, update: Partial<DiffSide>) => {
+    setSides(prev => (index === 0 ? [{ ...prev[0], ...update }, prev[1]] : [prev[0], { ...prev[1], ...update }]));
+  };
+
+  const compare = async () => {
+    setError(null);
+    setIsLoading(true);
+    try {
+      const [before, after] = await Promise.all(sides.map((side, index) => fetchBytecode(side, SIDE_LABELS[index])));
+      setCompared({ sides, bytecodes: [before, after] });
+    } catch (err: any) {
+      setCompared(null);
+      if (err instanceof SyntaxError) {
+        setError("Block numbers must be integers");
+      } else {
+        setError(err.shortMessage || err.message || "Error fetching bytecode");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Cap the rendered lines across hunks, counting collapsed runs as one line
+  const totalLines =
+    diff?.hunks.reduce((total, hunk) => total + (hunk.kind === "equal" ? 1 : hunk.lines.length), 0) ?? 0;
+  let renderedLines = 0;
+  const renderLine = (line: DiffLine, key: string) => {
+    const instruction = line.after ?? line.before;
+    if (!instruction) return null;
+    return (
+      <div key={key} className={`flex gap-3 px-2 ${LINE_CLASSES[line.kind]}`}>
+        <span className="w-4 opacity-60">{LINE_PREFIXES[line.kind]}</span>
+        <span className="w-14 text-right opacity-60">{line.before?.pc.toString(16).padStart(4, "0") ?? ""}</span>
+        <span className="w-14 text-right opacity-60">{line.after?.pc.toString(16).padStart(4, "0") ?? ""}</span>
+        <span className="break-all">{formatInstruction(instruction)}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <div className="flex flex-col md:flex-row gap-4">
+        {sides.map((side, index) => (
+          <div key={SIDE_LABELS[index]} className="flex flex-col gap-2 w-full">
+            <span className="label-text text-sm">{SIDE_LABELS[index]}</span>
+            <input
+              type="text"
+              placeholder="Enter contract address (0x...)"
+              value={side.address}
+              onChange={e => updateSide(index as 0 | 1, { address: e.target.value })}
+              className="input input-bordered w-full"
+            />
+            <div className="flex gap-2">
+              <select
+                className="select select-bordered select-sm w-full"
+                value={side.chainId}
+                onChange={e => updateSide(index as 0 | 1, { chainId: Number(e.target.value) })}
+              >
+                {scaffoldConfig.targetNetworks.map(network => (
+                  <option key={network.id} value={network.id}>
+                    {network.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                inputMode="numeric"
+                placeholder="Block (latest)"
+                value={side.blockNumber}
+                onChange={e => updateSide(index as 0 | 1, { blockNumber: e.target.value })}
+                className="input input-bordered input-sm w-full"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between items-center">
+        <label className="label cursor-pointer gap-2">
+          <input
+            type="checkbox"
+            className="checkbox checkbox-sm"
+            checked={ignoreMetadata}
+            onChange={e => setIgnoreMetadata(e.target.checked)}
+          />
+          <span className="label-text">Ignore CBOR metadata</span>
+        </label>
+        <button className="btn btn-primary whitespace-nowrap" onClick={compare} disabled={isLoading}>
+          {isLoading ? "Fetching..." : "Compare Bytecode"}
+        </button>
+      </div>
+
+      {error && <div className="alert alert-error">{error}</div>}
+
+      {compared && diff && (
+        <div className="bg-base-100 p-4 rounded-lg space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-semibold m-0">
+              {getChainName(compared.sides[0].chainId)} → {getChainName(compared.sides[1].chainId)}
+            </h3>
+            <span className={`badge ${diff.identical ? "badge-success" : "badge-warning"}`}>
+              {diff.identical ? "Identical" : "Differs"}
+            </span>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="table table-compact w-full">
+              <thead>
+                <tr>
+                  <th>Section</th>
+                  <th>Before</th>
+                  <th>After</th>
+                  <th>Delta</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.sections.map(section => (
+                  <tr key={section.section} className={section.section === "total" ? "font-semibold" : ""}>
+                    <td className="capitalize">
+                      {section.section}
+                      {section.section === "total" && ignoreMetadata && (
+                        <span className="font-normal opacity-60 normal-case"> (without metadata)</span>
+                      )}
+                    </td>
+                    <td>{formatKB(section.before)}</td>
+                    <td>{formatKB(section.after)}</td>
+                    <td className={getDeltaClass(section.after - section.before)}>
+                      {section.changed && section.after === section.before
+                        ? "Changed"
+                        : formatDelta(section.after - section.before)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {diff.functions.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="table table-compact w-full">
+                <thead>
+                  <tr>
+                    <th>Function</th>
+                    <th>Before</th>
+                    <th>After</th>
+                    <th>Delta</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.functions
+                    .map(fn => ({ ...fn, delta: (fn.after ?? 0) - (fn.before ?? 0) }))
+                    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+                    .map(fn => (
+                      <tr key={fn.selector} className="hover">
+                        <td>
+                          <span className="font-mono text-xs">{fn.selector}</span>
+                          {selectorNames.get(fn.selector) && (
+                            <div className="text-xs opacity-70">{selectorNames.get(fn.selector)}</div>
+                          )}
+                        </td>
+                        <td>{fn.before !== undefined ? formatKB(fn.before) : "-"}</td>
+                        <td>{fn.after !== undefined ? formatKB(fn.after) : "-"}</td>
+                        <td className={getDeltaClass(fn.delta)}>
+                          {fn.before === undefined ? "New" : fn.after === undefined ? "Removed" : formatDelta(fn.delta)}
+                        </td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+              <p className="text-xs opacity-70 m-0 mt-1">
+                Sizes are the code reachable from each function&apos;s dispatcher entry, including shared internal code.
+              </p>
+            </div>
+          )}
+
+          {diff.hunks.some(hunk => hunk.kind === "changed") && (
+            <div className="font-mono text-xs bg-base-200 rounded-lg py-2 max-h-[32rem] overflow-auto">
+              {diff.hunks.map((hunk, hunkIndex) => {
+                if (renderedLines >= MAX_RENDERED_LINES) return null;
+                if (hunk.kind === "equal") {
+                  renderedLines++;
+                  return (
+                    <div key={hunkIndex} className="px-2 py-1 opacity-60 italic">
+                      ⋯ {hunk.blockCount} identical basic block{hunk.blockCount === 1 ? "" : "s"} ({formatKB(hunk.size)}
+                      )
+                    </div>
+                  );
+                }
+                const lines = hunk.lines.slice(0, MAX_RENDERED_LINES - renderedLines);
+                renderedLines += lines.length;
+                return (
+                  <div key={hunkIndex} className="border-y border-base-300">
+                    {lines.map((line, lineIndex) => renderLine(line, `${hunkIndex}-${lineIndex}`))}
+                  </div>
+                );
+              })}
+              {totalLines > MAX_RENDERED_LINES && (
+                <div className="px-2 py-1 opacity-60 italic">Only the first {MAX_RENDERED_LINES} lines are shown</div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
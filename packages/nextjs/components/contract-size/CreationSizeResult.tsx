@@ -0,0 +1,53 @@
+import { SizeBar } from "./SizeBar";
+import { Address } from "~~/components/scaffold-eth";
+import { ContractSizeLimits } from "~~/scaffold.config";
+import { CreationLookup, CreationSize } from "~~/utils/contract-size";
+
+type CreationSizeResultProps = {
+  creations: CreationSize[];
+  source: CreationLookup["source"];
+  limits: ContractSizeLimits;
+};
+
+const SOURCE_LABELS: Record<CreationLookup["source"], string> = {
+  receipt: "From the transaction receipt, contracts created by its constructor are missed",
+  callTracer: "Found with debug_traceTransaction",
+  trace_transaction: "Found with trace_transaction",
+};
+
+/**
+ * Initcode and runtime sizes of the contracts created by a transaction
+ */
+export const CreationSizeResult = ({ creations, source, limits }: CreationSizeResultProps) => {
+  return (
+    <div className="bg-base-100 p-4 rounded-lg space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold">
+          {creations.length} contract{creations.length === 1 ? "" : "s"} created
+        </h3>
+        <span className="text-xs opacity-70">{SOURCE_LABELS[source]}</span>
+      </div>
+      {creations.map(creation => (
+        <div key={creation.address} className="space-y-2 border-t border-base-300 pt-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Address address={creation.address} />
+            <span className="badge badge-sm badge-outline">
+              {creation.opcode === "TX" ? "Deployment tx" : creation.opcode}
+            </span>
+            {creation.factory && (
+              <span className="flex items-center gap-1 opacity-70">
+                via factory <Address address={creation.factory} size="xs" />
+              </span>
+            )}
+          </div>
+          <SizeBar label="Initcode" size={creation.initcodeSize} limit={limits.initcodeLimit} />
+          {creation.runtimeSize !== undefined ? (
+            <SizeBar label="Runtime code" size={creation.runtimeSize} limit={limits.runtimeCodeLimit} />
+          ) : (
+            <div className="text-sm text-warning">No runtime code found, the contract may have self-destructed</div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,258 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Address as AddressType, PublicClient, createPublicClient, http, isAddress, keccak256 } from "viem";
+import { getPublicClient } from "wagmi/actions";
+import { TrashIcon } from "@heroicons/react/24/outline";
+import scaffoldConfig from "~~/scaffold.config";
+import { wagmiConfig } from "~~/services/web3/wagmiConfig";
+import {
+  CrossChainStatus,
+  CustomChain,
+  checkContractSize,
+  describeSizeCheck,
+  formatKB,
+  getContractSizeLimits,
+  getReferenceCodeHash,
+} from "~~/utils/contract-size";
+
+type ChainResult = {
+  chainId: number;
+  chainName: string;
+  size?: number;
+  percentageOfLimit?: number;
+  runtimeCodeLimit: number;
+  codeHash?: string;
+  status: CrossChainStatus;
+  // What the address is when it isn't a plain contract: a proxy, an EOA, a precompile...
+  note?: string;
+  error?: string;
+};
+
+type ChainEntry = {
+  id: number;
+  name: string;
+  client: PublicClient;
+};
+
+const CUSTOM_CHAINS_STORAGE_KEY = "contractSizeCustomChains";
+
+const STATUS_BADGES: Record<CrossChainStatus, { label: string; className: string }> = {
+  match: { label: "Match", className: "badge-success" },
+  differs: { label: "Code differs", className: "badge-warning" },
+  missing: { label: "Missing", className: "badge-error" },
+  error: { label: "Error", className: "badge-error badge-outline" },
+};
+
+const getChainEntries = (customChains: CustomChain[]): ChainEntry[] => [
+  ...scaffoldConfig.targetNetworks.map(network => ({
+    id: network.id,
+    name: network.name,
+    client: getPublicClient(wagmiConfig, { chainId: network.id }) as PublicClient,
+  })),
+  ...customChains.map(chain => ({
+    id: chain.id,
+    name: chain.name,
+    client: createPublicClient({ transport: http(chain.rpcUrl) }),
+  })),
+];
+
+/**
+ * Compares the code deployed at the same address (e.g. CREATE2 deployments) across networks
+ */
+export const CrossNetworkSizeChecker = () => {
+  const [address, setAddress] = useState<string>("");
+  const [results, setResults] = useState<ChainResult[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [customChains, setCustomChains] = useState<CustomChain[]>([]);
+  const [newChain, setNewChain] = useState<{ name: string; rpcUrl: string }>({ name: "", rpcUrl: "" });
+  const [isAddingChain, setIsAddingChain] = useState<boolean>(false);
+
+  // Load user-added chains from local storage on component mount
+  useEffect(() => {
+    const savedChains = localStorage.getItem(CUSTOM_CHAINS_STORAGE_KEY);
+    if (savedChains) {
+      try {
+        setCustomChains(JSON.parse(savedChains));
+      } catch (e) {
+        console.error("Failed to parse custom chains from localStorage");
+      }
+    }
+  }, []);
+
+  const saveCustomChains = (chains: CustomChain[]) => {
+    setCustomChains(chains);
+    localStorage.setItem(CUSTOM_CHAINS_STORAGE_KEY, JSON.stringify(chains));
+  };
+
+  const addCustomChain = async () => {
+    setError(null);
+    setIsAddingChain(true);
+    try {
+      const rpcUrl = newChain.rpcUrl.trim();
+      if (!rpcUrl.startsWith("http")) {
+        throw new Error("Please enter a valid HTTP RPC URL");
+      }
+      // Ask the node for its chain id so the user doesn't have to
+      const chainId = await createPublicClient({ transport: http(rpcUrl) }).getChainId();
+      const knownChain = getChainEntries(customChains).find(chain => chain.id === chainId);
+      if (knownChain) {
+        throw new Error(`Chain ${chainId} is already in the list (${knownChain.name})`);
+      }
+      saveCustomChains([...customChains, { id: chainId, name: newChain.name.trim() || `Chain ${chainId}`, rpcUrl }]);
+      setNewChain({ name: "", rpcUrl: "" });
+    } catch (err: any) {
+      setError(err.shortMessage || err.message || "Could not reach the RPC");
+    } finally {
+      setIsAddingChain(false);
+    }
+  };
+
+  const removeCustomChain = (chainId: number) => {
+    saveCustomChains(customChains.filter(chain => chain.id !== chainId));
+  };
+
+  const checkChain = async (chain: ChainEntry): Promise<ChainResult> => {
+    const limits = getContractSizeLimits(chain.id);
+    const result = { chainId: chain.id, chainName: chain.name, runtimeCodeLimit: limits.runtimeCodeLimit };
+    try {
+      const check = await checkContractSize(chain.client, address as AddressType, { limits });
+      if (!check.sizeData) {
+        return { ...result, status: "missing", note: describeSizeCheck(check) };
+      }
+      return {
+        ...result,
+        ...check.sizeData,
+        codeHash: keccak256(check.bytecode),
+        status: "match",
+        note: describeSizeCheck(check),
+      };
+    } catch (err: any) {
+      return { ...result, status: "error", error: err.shortMessage || err.message || "Error fetching bytecode" };
+    }
+  };
+
+  const compareNetworks = async () => {
+    setError(null);
+    if (!isAddress(address, { strict: false })) {
+      setError("Please enter a valid EVM address");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const chainResults = await Promise.all(getChainEntries(customChains).map(checkChain));
+      const referenceCodeHash = getReferenceCodeHash(chainResults.map(result => result.codeHash));
+      setResults(
+        chainResults.map(result =>
+          result.codeHash && result.codeHash !== referenceCodeHash ? { ...result, status: "differs" } : result,
+        ),
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <div className="flex flex-col md:flex-row gap-4">
+        <input
+          type="text"
+          placeholder="Enter contract address (0x...)"
+          value={address}
+          onChange={e => setAddress(e.target.value)}
+          className="input input-bordered w-full"
+        />
+        <button className="btn btn-primary whitespace-nowrap" onClick={compareNetworks} disabled={isLoading}>
+          {isLoading ? "Checking..." : "Compare Networks"}
+        </button>
+      </div>
+
+      <div className="collapse collapse-arrow bg-base-100">
+        <input type="checkbox" />
+        <div className="collapse-title text-sm font-medium">
+          Networks ({scaffoldConfig.targetNetworks.length + customChains.length})
+        </div>
+        <div className="collapse-content space-y-2">
+          <ul className="text-sm space-y-1">
+            {scaffoldConfig.targetNetworks.map(network => (
+              <li key={network.id}>
+                {network.name} <span className="opacity-60">({network.id})</span>
+              </li>
+            ))}
+            {customChains.map(chain => (
+              <li key={chain.id} className="flex items-center gap-2">
+                {chain.name} <span className="opacity-60">({chain.id})</span>
+                <button className="btn btn-ghost btn-xs" onClick={() => removeCustomChain(chain.id)}>
+                  <TrashIcon className="h-3 w-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="flex flex-col md:flex-row gap-2">
+            <input
+              type="text"
+              placeholder="Name (optional)"
+              value={newChain.name}
+              onChange={e => setNewChain(prev => ({ ...prev, name: e.target.value }))}
+              className="input input-bordered input-sm md:w-40"
+            />
+            <input
+              type="text"
+              placeholder="RPC URL (https://...)"
+              value={newChain.rpcUrl}
+              onChange={e => setNewChain(prev => ({ ...prev, rpcUrl: e.target.value }))}
+              className="input input-bordered input-sm w-full"
+            />
+            <button className="btn btn-secondary btn-sm" onClick={addCustomChain} disabled={isAddingChain}>
+              {isAddingChain ? "Adding..." : "Add Chain"}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {error && <div className="alert alert-error">{error}</div>}
+
+      {results.length > 0 && (
+        <div className="overflow-x-auto bg-base-100 rounded-lg">
+          <table className="table table-compact w-full">
+            <thead>
+              <tr>
+                <th>Chain</th>
+                <th>Size</th>
+                <th>Code Hash</th>
+                <th>Percentage</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map(result => (
+                <tr key={result.chainId} className="hover">
+                  <td>
+                    {result.chainName} <span className="opacity-60 text-xs">({result.chainId})</span>
+                  </td>
+                  <td>{result.size !== undefined ? `${result.size.toFixed(2)} KB` : "-"}</td>
+                  <td className="font-mono text-xs" title={result.codeHash}>
+                    {result.codeHash ? `${result.codeHash.slice(0, 10)}…${result.codeHash.slice(-8)}` : "-"}
+                  </td>
+                  <td>
+                    {result.percentageOfLimit !== undefined ? `${result.percentageOfLimit.toFixed(1)}%` : "-"}
+                    <div className="text-xs opacity-60">of {formatKB(result.runtimeCodeLimit)}</div>
+                  </td>
+                  <td>
+                    <span className={`badge badge-sm ${STATUS_BADGES[result.status].className}`}>
+                      {STATUS_BADGES[result.status].label}
+                    </span>
+                    {result.note && <div className="text-xs opacity-70 mt-1 max-w-xs break-words">{result.note}</div>}
+                    {result.error && <div className="text-xs text-error mt-1 max-w-xs break-words">{result.error}</div>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
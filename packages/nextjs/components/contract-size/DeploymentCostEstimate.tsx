@@ -0,0 +1,123 @@
+import { useEffect, useMemo, useState } from "react";
+import { Hex, formatEther, formatGwei, hexToBytes } from "viem";
+import { useGasPrice } from "wagmi";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { useDisplayUsdMode } from "~~/hooks/scaffold-eth/useDisplayUsdMode";
+import { useGlobalState } from "~~/services/store/store";
+import { estimateDeploymentGas, formatKB, getContractSizeLimits, getNonZeroByteRatio } from "~~/utils/contract-size";
+
+type DeploymentCostEstimateProps = {
+  bytecode: Hex;
+  // Known when the contract was checked from its creation transaction
+  initcodeSize?: number;
+};
+
+const SLIDER_STEP = 256;
+
+/**
+ * Estimated deployment gas of the checked contract priced at the network's current gas price, with a what-if slider
+ * to see the cost of other sizes up to the chain's limit
+ */
+export const DeploymentCostEstimate = ({ bytecode, initcodeSize }: DeploymentCostEstimateProps) => {
+  const { targetNetwork } = useTargetNetwork();
+  const { data: gasPrice, isError: isGasPriceError } = useGasPrice({ chainId: targetNetwork.id });
+  const nativeCurrencyPrice = useGlobalState(state => state.nativeCurrency.price);
+  const { displayUsdMode, toggleDisplayUsdMode } = useDisplayUsdMode({ defaultUsdMode: true });
+
+  const runtimeSize = useMemo(() => hexToBytes(bytecode).length, [bytecode]);
+  const nonZeroByteRatio = useMemo(() => getNonZeroByteRatio(bytecode), [bytecode]);
+  const { runtimeCodeLimit } = getContractSizeLimits(targetNetwork.id);
+  const [whatIfSize, setWhatIfSize] = useState<number>(runtimeSize);
+
+  useEffect(() => {
+    setWhatIfSize(runtimeSize);
+  }, [runtimeSize]);
+
+  const estimate = estimateDeploymentGas(runtimeSize, { initcodeSize, nonZeroByteRatio });
+  // The constructor's share of the initcode stays the same at any runtime size
+  const constructorSize = (initcodeSize ?? runtimeSize) - runtimeSize;
+  const whatIfEstimate = estimateDeploymentGas(whatIfSize, {
+    initcodeSize: whatIfSize + constructorSize,
+    nonZeroByteRatio,
+  });
+
+  const formatCost = (gas: number) => {
+    if (gasPrice === undefined) return "-";
+    const cost = Number(formatEther(BigInt(gas) * gasPrice));
+    return displayUsdMode
+      ? `$${(cost * nativeCurrencyPrice).toFixed(2)}`
+      : `${cost.toFixed(6)} ${targetNetwork.nativeCurrency.symbol}`;
+  };
+
+  const rows = [
+    { label: "Transaction and creation base", gas: estimate.baseGas },
+    { label: "Initcode calldata", gas: estimate.calldataGas },
+    { label: "Initcode words (EIP-3860)", gas: estimate.initcodeWordGas },
+    { label: `Code deposit (${runtimeSize} bytes)`, gas: estimate.codeDepositGas },
+  ];
+
+  return (
+    <div className="mt-6 bg-base-100 p-4 rounded-lg space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold m-0">Deployment Cost</h3>
+        <button
+          className="btn btn-xs btn-ghost"
+          onClick={toggleDisplayUsdMode}
+          disabled={nativeCurrencyPrice === 0}
+          title={nativeCurrencyPrice === 0 ? "No price available for this network" : "Toggle USD"}
+        >
+          {displayUsdMode ? "USD" : targetNetwork.nativeCurrency.symbol}
+        </button>
+      </div>
+
+      <table className="table table-compact w-full">
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.label}>
+              <td>{row.label}</td>
+              <td className="text-right">{row.gas.toLocaleString()} gas</td>
+            </tr>
+          ))}
+          <tr className="font-semibold">
+            <td>Total</td>
+            <td className="text-right">
+              {estimate.totalGas.toLocaleString()} gas
+              <div className="text-sm">{formatCost(estimate.totalGas)}</div>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+      <p className="text-xs opacity-70 m-0">
+        {gasPrice !== undefined
+          ? `Priced at the current gas price of ${Number(formatGwei(gasPrice)).toFixed(3)} gwei.`
+          : isGasPriceError
+            ? "Couldn't fetch the current gas price."
+            : "Fetching the current gas price..."}{" "}
+        {initcodeSize === undefined && "The initcode is assumed to be the runtime code alone. "}
+        The constructor&apos;s execution isn&apos;t included.
+      </p>
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <span>What if it was {formatKB(whatIfSize)}?</span>
+          <span className="font-semibold">
+            {whatIfEstimate.totalGas.toLocaleString()} gas · {formatCost(whatIfEstimate.totalGas)}
+          </span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(runtimeCodeLimit, runtimeSize)}
+          step={SLIDER_STEP}
+          value={whatIfSize}
+          onChange={e => setWhatIfSize(Number(e.target.value))}
+          className="range range-primary range-sm"
+        />
+        <div className="flex justify-between text-xs opacity-70">
+          <span>0 KB</span>
+          <span>Limit: {formatKB(runtimeCodeLimit)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
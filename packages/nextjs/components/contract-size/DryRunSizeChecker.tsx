@@ -0,0 +1,104 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { SizeBar } from "./SizeBar";
+import { usePublicClient } from "wagmi";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+import {
+  DeploymentRejectionReason,
+  DryRunResult,
+  formatKB,
+  getContractSizeLimits,
+  parseHexInput,
+  simulateDeployment,
+} from "~~/utils/contract-size";
+
+const REJECTION_MESSAGES: Record<DeploymentRejectionReason, string> = {
+  "runtime-size-limit": "Deployment would fail: the runtime code exceeds the network's code size limit.",
+  "initcode-size-limit": "Deployment would fail: the initcode exceeds the network's initcode size limit.",
+  reverted: "Deployment would fail: the constructor reverted. This is not related to the code size limit.",
+  other: "The node rejected the simulation for a reason not related to the code size limit.",
+};
+
+/**
+ * Measures the runtime code an undeployed initcode would produce, by simulating its deployment
+ */
+export const DryRunSizeChecker = () => {
+  const [initcode, setInitcode] = useState<string>("");
+  const [constructorArgs, setConstructorArgs] = useState<string>("");
+  const [result, setResult] = useState<DryRunResult | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const sizeLimits = useMemo(() => getContractSizeLimits(targetNetwork.id), [targetNetwork.id]);
+
+  const runDryRun = async () => {
+    setError(null);
+    setResult(null);
+    setIsLoading(true);
+    try {
+      if (!publicClient) {
+        throw new Error("No public client found");
+      }
+      const parsedInitcode = parseHexInput(initcode, "Initcode");
+      if (parsedInitcode === "0x") {
+        throw new Error("Please paste the contract initcode (creation bytecode)");
+      }
+      const parsedArgs = constructorArgs.trim() ? parseHexInput(constructorArgs, "Constructor args") : "0x";
+      setResult(await simulateDeployment(publicClient, parsedInitcode, parsedArgs));
+    } catch (err: any) {
+      setError(err.message || "Error simulating the deployment");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <textarea
+        placeholder="Paste initcode / creation bytecode (0x...)"
+        value={initcode}
+        onChange={e => setInitcode(e.target.value)}
+        className="textarea textarea-bordered w-full h-32 font-mono text-xs"
+      />
+      <div className="flex flex-col md:flex-row gap-4">
+        <input
+          type="text"
+          placeholder="ABI-encoded constructor args (optional)"
+          value={constructorArgs}
+          onChange={e => setConstructorArgs(e.target.value)}
+          className="input input-bordered w-full font-mono text-xs"
+        />
+        <button className="btn btn-primary whitespace-nowrap" onClick={runDryRun} disabled={isLoading}>
+          {isLoading ? "Simulating..." : "Dry Run"}
+        </button>
+      </div>
+
+      {error && <div className="alert alert-error">{error}</div>}
+
+      {result && (
+        <div className="bg-base-100 p-4 rounded-lg space-y-3">
+          <SizeBar label="Initcode" size={result.initcodeSize} limit={sizeLimits.initcodeLimit} />
+          {result.runtimeSize !== undefined && (
+            <SizeBar label="Runtime code" size={result.runtimeSize} limit={sizeLimits.runtimeCodeLimit} />
+          )}
+          {result.rejection ? (
+            <div className={`alert ${result.rejection.reason === "other" ? "alert-warning" : "alert-error"}`}>
+              <div>
+                <p className="font-semibold m-0">{REJECTION_MESSAGES[result.rejection.reason]}</p>
+                <p className="text-xs m-0 mt-1 break-all">{result.rejection.message}</p>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm m-0">
+              {targetNetwork.name} accepted the simulated deployment, which would produce{" "}
+              {formatKB(result.runtimeSize ?? 0)} of runtime code.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import { useMemo, useState } from "react";
+import { Abi, Hex } from "viem";
+import { ChevronDownIcon, ChevronUpIcon } from "@heroicons/react/24/outline";
+import { analyzeFunctionSizes, getSelectorNames } from "~~/utils/contract-size";
+
+type SortKey = "name" | "exclusiveSize" | "sharedSize" | "reachableSize";
+
+type TreemapItem = { key: string; label: string; size: number; className: string };
+type TreemapTile = TreemapItem & { x: number; y: number; width: number; height: number };
+
+const TILE_CLASSES = ["bg-primary", "bg-secondary", "bg-accent", "bg-info", "bg-success", "bg-warning"];
+
+/**
+ * Lays items out by recursively splitting the area along its longest side, in percentages of the container
+ */
+const layoutTreemap = (items: TreemapItem[], x = 0, y = 0, width = 100, height = 100): TreemapTile[] => {
+  if (items.length === 0) return [];
+  if (items.length === 1) return [{ ...items[0], x, y, width, height }];
+
+  const total = items.reduce((sum, item) => sum + item.size, 0);
+  let splitIndex = 1;
+  let firstHalfSize = items[0].size;
+  while (splitIndex < items.length - 1 && firstHalfSize + items[splitIndex].size <= total / 2) {
+    firstHalfSize += items[splitIndex++].size;
+  }
+  const ratio = total === 0 ? 0.5 : firstHalfSize / total;
+
+  return width >= height
+    ? [
+        ...layoutTreemap(items.slice(0, splitIndex), x, y, width * ratio, height),
+        ...layoutTreemap(items.slice(splitIndex), x + width * ratio, y, width * (1 - ratio), height),
+      ]
+    : [
+        ...layoutTreemap(items.slice(0, splitIndex), x, y, width, height * ratio),
+        ...layoutTreemap(items.slice(splitIndex), x, y + height * ratio, width, height * (1 - ratio)),
+      ];
+};
+
+/**
+ * Estimated bytes per external function, from the selector dispatcher
+ */
+export const FunctionSizeBreakdown = ({ bytecode }: { bytecode: Hex }) => {
+  const [abiInput, setAbiInput] = useState<string>("");
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: "exclusiveSize", ascending: false });
+
+  const analysis = useMemo(() => analyzeFunctionSizes(bytecode), [bytecode]);
+
+  const { selectorNames, abiError } = useMemo(() => {
+    if (!abiInput.trim()) return { selectorNames: getSelectorNames(), abiError: null };
+    try {
+      const parsed = JSON.parse(abiInput);
+      // Accept a bare ABI as well as a build artifact holding one
+      const abi = (Array.isArray(parsed) ? parsed : parsed.abi) as Abi;
+      if (!Array.isArray(abi)) throw new Error("No ABI found");
+      return { selectorNames: getSelectorNames(abi), abiError: null };
+    } catch (e) {
+      return { selectorNames: getSelectorNames(), abiError: "Invalid ABI JSON" };
+    }
+  }, [abiInput]);
+
+  const rows = useMemo(() => {
+    const direction = sort.ascending ? 1 : -1;
+    return analysis.functions
+      .map(fn => ({ ...fn, name: selectorNames.get(fn.selector) ?? "" }))
+      .sort((a, b) =>
+        sort.key === "name"
+          ? (a.name || a.selector).localeCompare(b.name || b.selector) * direction
+          : (a[sort.key] - b[sort.key]) * direction,
+      );
+  }, [analysis, selectorNames, sort]);
+
+  const tiles = useMemo(() => {
+    const items: TreemapItem[] = [
+      ...analysis.functions.map((fn, index) => ({
+        key: fn.selector,
+        label: selectorNames.get(fn.selector)?.split("(")[0] ?? fn.selector,
+        size: fn.exclusiveSize,
+        className: TILE_CLASSES[index % TILE_CLASSES.length],
+      })),
+      { key: "shared", label: "Shared", size: analysis.sharedSize, className: "bg-neutral" },
+      { key: "dispatcher", label: "Dispatcher", size: analysis.dispatcherSize, className: "bg-base-300" },
+      { key: "unattributed", label: "Unattributed", size: analysis.unattributedSize, className: "bg-base-200" },
+    ];
+    return layoutTreemap(items.filter(item => item.size > 0).sort((a, b) => b.size - a.size));
+  }, [analysis, selectorNames]);
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => ({ key, ascending: prev.key === key ? !prev.ascending : key === "name" }));
+  };
+
+  const renderSortableHeader = (label: string, sortKey: SortKey) => (
+    <th key={sortKey} className="cursor-pointer select-none" onClick={() => toggleSort(sortKey)}>
+      <span className="flex items-center gap-1">
+        {label}
+        {sort.key === sortKey &&
+          (sort.ascending ? <ChevronUpIcon className="h-3 w-3" /> : <ChevronDownIcon className="h-3 w-3" />)}
+      </span>
+    </th>
+  );
+
+  if (analysis.functions.length === 0) {
+    return (
+      <div className="bg-base-100 p-4 rounded-lg text-sm">
+        No selector dispatcher found in this bytecode (e.g. a proxy, a Vyper contract or hand-written code).
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-base-100 p-4 rounded-lg space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold">Function sizes</h3>
+        <span className="text-xs opacity-70">Estimated from the dispatcher, in bytes</span>
+      </div>
+
+      <div className="relative w-full h-48 rounded-lg overflow-hidden">
+        {tiles.map(tile => (
+          <div
+            key={tile.key}
+            className={`absolute border border-base-100 overflow-hidden text-[10px] leading-tight p-1 ${tile.className}`}
+            style={{ left: `${tile.x}%`, top: `${tile.y}%`, width: `${tile.width}%`, height: `${tile.height}%` }}
+            title={`${tile.label}: ${tile.size} bytes`}
+          >
+            {tile.label}
+            <br />
+            {tile.size}
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto max-h-96">
+        <table className="table table-compact w-full">
+          <thead>
+            <tr>
+              {renderSortableHeader("Function", "name")}
+              {renderSortableHeader("Own", "exclusiveSize")}
+              {renderSortableHeader("Shared", "sharedSize")}
+              {renderSortableHeader("Reachable", "reachableSize")}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.selector} className="hover">
+                <td className="font-mono text-xs">
+                  {row.name || <span className="opacity-60">unknown</span>}
+                  <div className="opacity-60">{row.selector}</div>
+                </td>
+                <td>{row.exclusiveSize}</td>
+                <td>{row.sharedSize}</td>
+                <td>{row.reachableSize}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="collapse collapse-arrow bg-base-200">
+        <input type="checkbox" />
+        <div className="collapse-title text-sm font-medium">Name selectors with an ABI</div>
+        <div className="collapse-content">
+          <textarea
+            placeholder="Paste the contract ABI (or a build artifact) as JSON"
+            value={abiInput}
+            onChange={e => setAbiInput(e.target.value)}
+            className="textarea textarea-bordered w-full h-24 font-mono text-xs"
+          />
+          {abiError && <div className="text-xs text-error">{abiError}</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import { Address as AddressType } from "viem";
+import { Address } from "~~/components/scaffold-eth";
+import { ContractSizeLimits } from "~~/scaffold.config";
+import { PROXY_KIND_LABELS, ProxyResolution, formatKB } from "~~/utils/contract-size";
+
+type ProxySizeResultProps = {
+  resolution: ProxyResolution;
+  limits: ContractSizeLimits;
+  onCheckAddress: (address: AddressType) => void;
+};
+
+/**
+ * Sizes of the code behind a proxy: its implementation, beacon or diamond facets
+ */
+export const ProxySizeResult = ({ resolution, limits, onCheckAddress }: ProxySizeResultProps) => {
+  return (
+    <div className="bg-base-100 p-4 rounded-lg space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold">{PROXY_KIND_LABELS[resolution.kind]}</h3>
+        <span className="text-xs opacity-70">Proxy: {formatKB(resolution.proxySize)}</span>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="table table-compact w-full">
+          <thead>
+            <tr>
+              <th>{resolution.kind === "diamond" ? "Facet" : "Contract"}</th>
+              <th>Size</th>
+              <th>Percentage</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {resolution.implementations.map(implementation => (
+              <tr key={`${implementation.role}-${implementation.address}`} className="hover">
+                <td>
+                  <Address address={implementation.address} size="sm" />
+                  <div className="text-xs opacity-60">
+                    {implementation.role}
+                    {implementation.selectorCount !== undefined && ` · ${implementation.selectorCount} selectors`}
+                  </div>
+                </td>
+                <td>{implementation.size > 0 ? formatKB(implementation.size) : "No code"}</td>
+                <td>{((implementation.size / limits.runtimeCodeLimit) * 100).toFixed(1)}%</td>
+                <td>
+                  <button
+                    className="btn btn-xs btn-secondary"
+                    onClick={() => onCheckAddress(implementation.address)}
+                    disabled={implementation.size === 0}
+                  >
+                    Check
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {resolution.kind === "diamond" && (
+        <div className="text-sm">
+          Total of {resolution.implementations.length} facets:{" "}
+          <span className="font-semibold">{formatKB(resolution.totalImplementationSize)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
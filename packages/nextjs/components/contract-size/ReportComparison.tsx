@@ -0,0 +1,180 @@
+"use client";
+
+import { ChangeEvent, useMemo, useState } from "react";
+import { TrashIcon } from "@heroicons/react/24/outline";
+import { SizeReport, formatKB, getReportEntryKey, parseSizeReport } from "~~/utils/contract-size";
+
+type ImportedReport = {
+  id: number;
+  fileName: string;
+  report: SizeReport;
+};
+
+type ComparisonRow = {
+  key: string;
+  // Sizes in bytes, undefined when the contract isn't in that report
+  baselineSize?: number;
+  currentSize?: number;
+  limit?: number;
+};
+
+const formatDelta = (delta: number) => (delta === 0 ? "-" : `${delta > 0 ? "+" : "-"}${formatKB(Math.abs(delta))}`);
+
+/**
+ * Imports size reports (exports of this app, `forge build --sizes --json`, `hardhat-contract-sizer`) to view them,
+ * and compares two of them contract by contract
+ */
+export const ReportComparison = () => {
+  const [reports, setReports] = useState<ImportedReport[]>([]);
+  const [baselineId, setBaselineId] = useState<number | null>(null);
+  const [currentId, setCurrentId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+
+    const imported: ImportedReport[] = [];
+    for (const file of files) {
+      try {
+        imported.push({
+          id: Date.now() + imported.length,
+          fileName: file.name,
+          report: parseSizeReport(await file.text()),
+        });
+      } catch (err: any) {
+        setError(`${file.name}: ${err.message}`);
+      }
+    }
+    if (imported.length === 0) return;
+
+    const allReports = [...reports, ...imported];
+    setReports(allReports);
+    // Compare the two most recent imports by default
+    setCurrentId(allReports[allReports.length - 1].id);
+    setBaselineId(allReports.length > 1 ? allReports[allReports.length - 2].id : null);
+  };
+
+  const removeReport = (id: number) => {
+    setReports(prev => prev.filter(report => report.id !== id));
+    if (baselineId === id) setBaselineId(null);
+    if (currentId === id) setCurrentId(null);
+  };
+
+  const baseline = reports.find(report => report.id === baselineId)?.report;
+  const current = reports.find(report => report.id === currentId)?.report;
+
+  const rows = useMemo(() => {
+    const rowsByKey = new Map<string, ComparisonRow>();
+    baseline?.entries.forEach(entry => {
+      const key = getReportEntryKey(entry);
+      rowsByKey.set(key, { key, baselineSize: entry.size, limit: entry.limit });
+    });
+    current?.entries.forEach(entry => {
+      const key = getReportEntryKey(entry);
+      const row = rowsByKey.get(key);
+      rowsByKey.set(key, { key, ...row, currentSize: entry.size, limit: entry.limit ?? row?.limit });
+    });
+    return [...rowsByKey.values()].sort(
+      (a, b) => (b.currentSize ?? b.baselineSize ?? 0) - (a.currentSize ?? a.baselineSize ?? 0),
+    );
+  }, [baseline, current]);
+
+  const renderReportSelect = (label: string, value: number | null, onChange: (id: number | null) => void) => (
+    <label className="form-control w-full">
+      <span className="label-text text-sm mb-1">{label}</span>
+      <select
+        className="select select-bordered select-sm"
+        value={value ?? ""}
+        onChange={e => onChange(e.target.value ? Number(e.target.value) : null)}
+      >
+        <option value="">None</option>
+        {reports.map(report => (
+          <option key={report.id} value={report.id}>
+            {report.fileName}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <input
+        type="file"
+        multiple
+        accept=".json,.txt,application/json,text/plain"
+        onChange={handleFileUpload}
+        className="file-input file-input-bordered file-input-sm w-full"
+      />
+      <p className="text-xs opacity-70 m-0">
+        Accepts JSON reports exported from this app, <code>forge build --sizes --json</code> output and{" "}
+        <code>hardhat-contract-sizer</code> output.
+      </p>
+
+      {error && <div className="alert alert-error">{error}</div>}
+
+      {reports.length > 0 && (
+        <ul className="text-sm space-y-1">
+          {reports.map(({ id, fileName, report }) => (
+            <li key={id} className="flex items-center gap-2">
+              {fileName}
+              <span className="opacity-60">
+                ({report.source}, {report.entries.length} contracts)
+              </span>
+              <button className="btn btn-ghost btn-xs" onClick={() => removeReport(id)}>
+                <TrashIcon className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {reports.length > 0 && (
+        <div className="flex flex-col md:flex-row gap-4">
+          {renderReportSelect("Baseline", baselineId, setBaselineId)}
+          {renderReportSelect("Compared to", currentId, setCurrentId)}
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="overflow-x-auto bg-base-100 rounded-lg">
+          <table className="table table-compact w-full">
+            <thead>
+              <tr>
+                <th>Contract</th>
+                {baseline && <th>Baseline</th>}
+                {current && <th>Size</th>}
+                {baseline && current && <th>Delta</th>}
+                <th>Percentage</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => {
+                const size = row.currentSize ?? row.baselineSize ?? 0;
+                const delta =
+                  row.baselineSize !== undefined && row.currentSize !== undefined
+                    ? row.currentSize - row.baselineSize
+                    : undefined;
+                return (
+                  <tr key={row.key} className="hover">
+                    <td className="font-mono text-xs break-all">{row.key}</td>
+                    {baseline && <td>{row.baselineSize !== undefined ? formatKB(row.baselineSize) : "-"}</td>}
+                    {current && <td>{row.currentSize !== undefined ? formatKB(row.currentSize) : "-"}</td>}
+                    {baseline && current && (
+                      <td className={delta && delta > 0 ? "text-error" : delta && delta < 0 ? "text-success" : ""}>
+                        {delta !== undefined ? formatDelta(delta) : row.currentSize !== undefined ? "New" : "Removed"}
+                      </td>
+                    )}
+                    <td>{row.limit ? `${((size / row.limit) * 100).toFixed(1)}% of ${formatKB(row.limit)}` : "-"}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import { ArrowDownTrayIcon } from "@heroicons/react/24/outline";
+import { SizeReport, SizeReportFormat, formatSizeReport } from "~~/utils/contract-size";
+import { notification } from "~~/utils/scaffold-eth";
+
+type ReportExportButtonsProps = {
+  // Built on demand, so the report reflects the data at the time of the export
+  getReport: () => SizeReport;
+  fileName: string;
+  disabled?: boolean;
+};
+
+const FORMATS: { format: SizeReportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: "json", label: "JSON", extension: "json", mimeType: "application/json" },
+  { format: "csv", label: "CSV", extension: "csv", mimeType: "text/csv" },
+  { format: "markdown", label: "Markdown", extension: "md", mimeType: "text/markdown" },
+];
+
+const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Dropdown to download a size report as JSON, CSV or Markdown, or copy its Markdown table for a PR
+ */
+export const ReportExportButtons = ({ getReport, fileName, disabled }: ReportExportButtonsProps) => {
+  const copyMarkdown = async () => {
+    try {
+      await navigator.clipboard.writeText(formatSizeReport(getReport(), "markdown"));
+      notification.success("Markdown table copied");
+    } catch (e) {
+      notification.error("Couldn't copy to the clipboard");
+    }
+  };
+
+  return (
+    <div className="dropdown dropdown-end">
+      <label tabIndex={0} className={`btn btn-sm btn-outline gap-1 ${disabled ? "btn-disabled" : ""}`}>
+        <ArrowDownTrayIcon className="h-4 w-4" />
+        Export
+      </label>
+      <ul
+        tabIndex={0}
+        className="dropdown-content menu p-2 shadow-center shadow-accent bg-base-200 rounded-box w-44 z-20"
+      >
+        {FORMATS.map(({ format, label, extension, mimeType }) => (
+          <li key={format}>
+            <button
+              onClick={() => downloadFile(`${fileName}.${extension}`, formatSizeReport(getReport(), format), mimeType)}
+            >
+              {label}
+            </button>
+          </li>
+        ))}
+        <li>
+          <button onClick={copyMarkdown}>Copy Markdown</button>
+        </li>
+      </ul>
+    </div>
+  );
+};
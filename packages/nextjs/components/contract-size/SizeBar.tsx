@@ -0,0 +1,34 @@
+import { formatKB } from "~~/utils/contract-size";
+
+type SizeBarProps = {
+  label: string;
+  // Sizes in bytes
+  size: number;
+  limit: number;
+  barClassName?: string;
+};
+
+/**
+ * Horizontal bar showing a byte size against a limit
+ */
+export const SizeBar = ({ label, size, limit, barClassName }: SizeBarProps) => {
+  const percentage = (size / limit) * 100;
+  const exceeds = size > limit;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span>{label}</span>
+        <span className={exceeds ? "text-error font-semibold" : ""}>
+          {formatKB(size)} / {formatKB(limit)} ({percentage.toFixed(1)}%)
+        </span>
+      </div>
+      <div className="h-4 bg-base-200 rounded-sm overflow-hidden w-full">
+        <div
+          className={`h-full ${barClassName ?? (exceeds ? "bg-error" : "bg-success")}`}
+          style={{ width: `${Math.min(percentage, 100)}%`, transition: "width 0.5s ease-in-out" }}
+        ></div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,239 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { ReportExportButtons } from "./ReportExportButtons";
+import { PencilSquareIcon, StarIcon as StarOutlineIcon } from "@heroicons/react/24/outline";
+import { StarIcon } from "@heroicons/react/24/solid";
+import { Address } from "~~/components/scaffold-eth";
+import {
+  HistoryEntry,
+  SizeStatus,
+  createSizeReport,
+  getChainName,
+  getContractSizeLimits,
+  getSizeStatus,
+} from "~~/utils/contract-size";
+
+type SizeHistoryProps = {
+  entries: HistoryEntry[];
+  onLoad: (entry: HistoryEntry) => void;
+  onUpdate: (entry: HistoryEntry) => void;
+  onDelete: (ids: string[]) => void;
+};
+
+const SIZE_BAND_LABELS: Record<SizeStatus, string> = {
+  exceeds: "Exceeds limit",
+  optimal: "Optimal",
+  below: "Below optimal",
+  within: "Within limit",
+};
+
+/**
+ * Every contract checked so far, across chains, with search, filters, pinning and bulk delete
+ */
+export const SizeHistory = ({ entries, onLoad, onUpdate, onDelete }: SizeHistoryProps) => {
+  const [search, setSearch] = useState<string>("");
+  const [chainFilter, setChainFilter] = useState<number | "all">("all");
+  const [bandFilter, setBandFilter] = useState<SizeStatus | "all">("all");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [editingLabel, setEditingLabel] = useState<{ id: string; label: string } | null>(null);
+
+  const chainIds = useMemo(() => [...new Set(entries.map(entry => entry.chainId))], [entries]);
+
+  const visibleEntries = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return entries
+      .filter(entry => chainFilter === "all" || entry.chainId === chainFilter)
+      .filter(
+        entry =>
+          bandFilter === "all" || getSizeStatus(entry.data.size, getContractSizeLimits(entry.chainId)) === bandFilter,
+      )
+      .filter(
+        entry =>
+          !query ||
+          entry.address.toLowerCase().includes(query) ||
+          entry.label.toLowerCase().includes(query) ||
+          entry.codeHash?.toLowerCase().includes(query),
+      )
+      .sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.timestamp - a.timestamp);
+  }, [entries, search, chainFilter, bandFilter]);
+
+  const selectedVisibleIds = visibleEntries.filter(entry => selectedIds.has(entry.id)).map(entry => entry.id);
+  const areAllVisibleSelected = visibleEntries.length > 0 && selectedVisibleIds.length === visibleEntries.length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelectedIds(areAllVisibleSelected ? new Set() : new Set(visibleEntries.map(entry => entry.id)));
+  };
+
+  const deleteSelected = () => {
+    onDelete(selectedVisibleIds);
+    setSelectedIds(new Set());
+  };
+
+  const getReport = () =>
+    createSizeReport(
+      "history",
+      visibleEntries.map(entry => ({
+        name: entry.label || undefined,
+        address: entry.address,
+        chainId: entry.chainId,
+        codeHash: entry.codeHash,
+        blockNumber: entry.blockNumber,
+        size: Math.round(entry.data.size * 1024),
+        limit: getContractSizeLimits(entry.chainId).runtimeCodeLimit,
+      })),
+    );
+
+  const saveLabel = () => {
+    if (!editingLabel) return;
+    const entry = entries.find(entry => entry.id === editingLabel.id);
+    if (entry) onUpdate({ ...entry, label: editingLabel.label.trim() });
+    setEditingLabel(null);
+  };
+
+  return (
+    <div className="bg-base-100 p-4 rounded-lg space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold">History</h3>
+        <div className="flex gap-2">
+          <ReportExportButtons getReport={getReport} fileName="size-history" disabled={visibleEntries.length === 0} />
+          <button
+            onClick={deleteSelected}
+            className="btn btn-sm btn-outline btn-error"
+            disabled={selectedVisibleIds.length === 0}
+          >
+            Delete Selected ({selectedVisibleIds.length})
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-2">
+        <input
+          type="text"
+          placeholder="Search by address, label or code hash"
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          className="input input-bordered input-sm w-full"
+        />
+        <select
+          className="select select-bordered select-sm"
+          value={chainFilter}
+          onChange={e => setChainFilter(e.target.value === "all" ? "all" : Number(e.target.value))}
+        >
+          <option value="all">All chains</option>
+          {chainIds.map(chainId => (
+            <option key={chainId} value={chainId}>
+              {getChainName(chainId)}
+            </option>
+          ))}
+        </select>
+        <select
+          className="select select-bordered select-sm"
+          value={bandFilter}
+          onChange={e => setBandFilter(e.target.value as SizeStatus | "all")}
+        >
+          <option value="all">All sizes</option>
+          {Object.entries(SIZE_BAND_LABELS).map(([band, label]) => (
+            <option key={band} value={band}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="table table-compact w-full">
+          <thead>
+            <tr>
+              <th>
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-xs"
+                  checked={areAllVisibleSelected}
+                  onChange={toggleAllVisible}
+                />
+              </th>
+              <th></th>
+              <th>Address</th>
+              <th>Chain</th>
+              <th>Size</th>
+              <th>Percentage</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleEntries.map(entry => (
+              <tr key={entry.id} className="hover">
+                <td>
+                  <input
+                    type="checkbox"
+                    className="checkbox checkbox-xs"
+                    checked={selectedIds.has(entry.id)}
+                    onChange={() => toggleSelected(entry.id)}
+                  />
+                </td>
+                <td>
+                  <button
+                    className="btn btn-ghost btn-xs"
+                    onClick={() => onUpdate({ ...entry, pinned: !entry.pinned })}
+                    title={entry.pinned ? "Unpin" : "Pin"}
+                  >
+                    {entry.pinned ? (
+                      <StarIcon className="h-4 w-4 text-warning" />
+                    ) : (
+                      <StarOutlineIcon className="h-4 w-4" />
+                    )}
+                  </button>
+                </td>
+                <td className="font-mono text-xs truncate max-w-[200px]">
+                  <Address address={entry.address} />
+                  {editingLabel?.id === entry.id ? (
+                    <input
+                      type="text"
+                      autoFocus
+                      value={editingLabel.label}
+                      onChange={e => setEditingLabel({ id: entry.id, label: e.target.value })}
+                      onBlur={saveLabel}
+                      onKeyDown={e => e.key === "Enter" && saveLabel()}
+                      className="input input-bordered input-xs mt-1 w-full font-sans"
+                    />
+                  ) : (
+                    <button
+                      className="flex items-center gap-1 opacity-70 font-sans mt-1"
+                      onClick={() => setEditingLabel({ id: entry.id, label: entry.label })}
+                    >
+                      <PencilSquareIcon className="h-3 w-3" />
+                      {entry.label || "Add label"}
+                    </button>
+                  )}
+                </td>
+                <td className="text-xs">
+                  {getChainName(entry.chainId)}
+                  {entry.blockNumber && <div className="opacity-60">Block {entry.blockNumber}</div>}
+                </td>
+                <td>{entry.data.size.toFixed(2)} KB</td>
+                <td>{entry.data.percentageOfLimit.toFixed(1)}%</td>
+                <td>
+                  <button onClick={() => onLoad(entry)} className="btn btn-xs btn-secondary">
+                    Load
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {visibleEntries.length === 0 && <p className="text-center text-sm opacity-70 m-0">No entry matches</p>}
+    </div>
+  );
+};
@@ -0,0 +1,301 @@
+"use client";
+
+import { Dispatch, SetStateAction, useMemo, useRef, useState } from "react";
+import { Hash } from "viem";
+import { hardhat } from "viem/chains";
+import { useAccount, usePublicClient, useWalletClient } from "wagmi";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+import {
+  CodeSizeProbeKind,
+  CodeSizeProbeMethod,
+  CodeSizeProbeResult,
+  buildCodeSizeProbe,
+  formatKB,
+  getBytecodeSize,
+  getContractSizeLimits,
+  parseByteSize,
+  probeCodeSizeLimit,
+} from "~~/utils/contract-size";
+
+type BoundaryDeployment = {
+  kind: CodeSizeProbeKind;
+  size: number;
+  hash?: Hash;
+  // Deployed runtime code size in bytes, undefined when the deployment failed
+  deployedSize?: number;
+  error?: string;
+};
+
+const PROBE_KINDS: { kind: CodeSizeProbeKind; label: string }[] = [
+  { kind: "runtime", label: "Runtime code" },
+  { kind: "initcode", label: "Initcode" },
+];
+
+const PROBE_METHODS: { method: CodeSizeProbeMethod; label: string }[] = [
+  { method: "call", label: "eth_call" },
+  { method: "estimateGas", label: "eth_estimateGas" },
+];
+
+// How far above the configured limits to look by default
+const DEFAULT_MAX_SIZE_FACTOR = 4;
+
+/**
+ * Measures the code size limits a node actually enforces, by binary searching simulated deployments of synthetic
+ * contracts. On local chains, the contracts at the limits can also be deployed through the connected wallet.
+ */
+export const SizeLimitProbe = () => {
+  const [method, setMethod] = useState<CodeSizeProbeMethod>("call");
+  const [maxRuntimeSize, setMaxRuntimeSize] = useState<string>("");
+  const [maxInitcodeSize, setMaxInitcodeSize] = useState<string>("");
+  const [results, setResults] = useState<Partial<Record<CodeSizeProbeKind, CodeSizeProbeResult>>>({});
+  const [progress, setProgress] = useState<string | null>(null);
+  const [deployments, setDeployments] = useState<BoundaryDeployment[]>([]);
+  const [isDeploying, setIsDeploying] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const { data: walletClient } = useWalletClient({ chainId: targetNetwork.id });
+  const { chain: connectedChain } = useAccount();
+  const sizeLimits = useMemo(() => getContractSizeLimits(targetNetwork.id), [targetNetwork.id]);
+  const isLocalNetwork = targetNetwork.id === hardhat.id;
+
+  const configuredLimits: Record<CodeSizeProbeKind, number> = {
+    runtime: sizeLimits.runtimeCodeLimit,
+    initcode: sizeLimits.initcodeLimit,
+  };
+  const maxSizeInputs: Record<CodeSizeProbeKind, [string, Dispatch<SetStateAction<string>>]> = {
+    runtime: [maxRuntimeSize, setMaxRuntimeSize],
+    initcode: [maxInitcodeSize, setMaxInitcodeSize],
+  };
+
+  const runProbe = async () => {
+    setError(null);
+    setResults({});
+    setDeployments([]);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    try {
+      if (!publicClient) {
+        throw new Error("No public client found");
+      }
+      for (const { kind, label } of PROBE_KINDS) {
+        const [input] = maxSizeInputs[kind];
+        const maxSize = input.trim() ? parseByteSize(input) : configuredLimits[kind] * DEFAULT_MAX_SIZE_FACTOR;
+        if (!maxSize) {
+          throw new Error(`Invalid max ${label.toLowerCase()} size: ${input}`);
+        }
+        setProgress(`Probing the ${label.toLowerCase()} limit...`);
+        const result = await probeCodeSizeLimit(publicClient, kind, {
+          method,
+          maxSize,
+          signal: abortController.signal,
+          onProgress: ({ accepted, rejected }) =>
+            setProgress(`Probing the ${label.toLowerCase()} limit: between ${accepted} and ${rejected} bytes...`),
+        });
+        setResults(prev => ({ ...prev, [kind]: result }));
+      }
+    } catch (err: any) {
+      setError(err.message || "Error probing the code size limits");
+    } finally {
+      abortControllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const deployBoundaryContracts = async () => {
+    setError(null);
+    setDeployments([]);
+    setIsDeploying(true);
+    try {
+      if (!publicClient || !walletClient) {
+        throw new Error("Connect a wallet to deploy the boundary contracts");
+      }
+      // Explicit gas, as estimating the contracts over the limit fails
+      const { gasLimit } = await publicClient.getBlock();
+      for (const result of Object.values(results)) {
+        if (!result.isBounded) continue;
+        for (const size of [result.limit, result.limit + 1]) {
+          const deployment: BoundaryDeployment = { kind: result.kind, size };
+          try {
+            deployment.hash = await walletClient.sendTransaction({
+              data: buildCodeSizeProbe(result.kind, size),
+              gas: gasLimit,
+            });
+            const receipt = await publicClient.waitForTransactionReceipt({ hash: deployment.hash });
+            if (receipt.status === "success" && receipt.contractAddress) {
+              const code = await publicClient.getCode({ address: receipt.contractAddress });
+              deployment.deployedSize = getBytecodeSize(code ?? "0x");
+            } else {
+              deployment.error = "Deployment reverted";
+            }
+          } catch (err: any) {
+            deployment.error = err.shortMessage || err.message;
+          }
+          setDeployments(prev => [...prev, deployment]);
+        }
+      }
+    } catch (err: any) {
+      setError(err.message || "Error deploying the boundary contracts");
+    } finally {
+      setIsDeploying(false);
+    }
+  };
+
+  const probedResults = PROBE_KINDS.flatMap(({ kind, label }) => {
+    const result = results[kind];
+    return result ? [{ label, result }] : [];
+  });
+  // Limits of unbounded results are unknown, only known to be above the probe's max
+  const getProbedLimit = (kind: CodeSizeProbeKind) =>
+    results[kind]?.isBounded ? results[kind].limit : configuredLimits[kind];
+  const hasMismatch = probedResults.some(({ result }) => getProbedLimit(result.kind) !== configuredLimits[result.kind]);
+  const isUnbounded = probedResults.some(({ result }) => !result.isBounded);
+  const isProbing = progress !== null;
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <p className="text-xs opacity-70 m-0">
+        Simulates deployments of synthetic contracts on {targetNetwork.name} to find the largest runtime code and
+        initcode its node accepts. Useful for chains with custom limits, like Anvil&apos;s{" "}
+        <code>--code-size-limit</code> or Hardhat&apos;s <code>allowUnlimitedContractSize</code>.
+      </p>
+      <div className="flex flex-col md:flex-row gap-4">
+        <select
+          className="select select-bordered"
+          value={method}
+          onChange={e => setMethod(e.target.value as CodeSizeProbeMethod)}
+          disabled={isProbing}
+        >
+          {PROBE_METHODS.map(({ method, label }) => (
+            <option key={method} value={method}>
+              {label}
+            </option>
+          ))}
+        </select>
+        {PROBE_KINDS.map(({ kind, label }) => {
+          const [value, setValue] = maxSizeInputs[kind];
+          return (
+            <input
+              key={kind}
+              type="text"
+              placeholder={`Max ${label.toLowerCase()} (default ${formatKB(configuredLimits[kind] * DEFAULT_MAX_SIZE_FACTOR)})`}
+              value={value}
+              onChange={e => setValue(e.target.value)}
+              className="input input-bordered w-full"
+              disabled={isProbing}
+            />
+          );
+        })}
+        {isProbing ? (
+          <button className="btn btn-outline whitespace-nowrap" onClick={() => abortControllerRef.current?.abort()}>
+            Cancel
+          </button>
+        ) : (
+          <button className="btn btn-primary whitespace-nowrap" onClick={runProbe} disabled={isDeploying}>
+            Probe limits
+          </button>
+        )}
+      </div>
+
+      {progress && <div className="text-sm opacity-70">{progress}</div>}
+      {error && <div className="alert alert-error break-all">{error}</div>}
+
+      {probedResults.length > 0 && (
+        <div className="bg-base-100 p-4 rounded-lg space-y-3">
+          <table className="table table-compact w-full">
+            <thead>
+              <tr>
+                <th>Limit</th>
+                <th>Effective</th>
+                <th>Configured</th>
+                <th>Requests</th>
+              </tr>
+            </thead>
+            <tbody>
+              {probedResults.map(({ label, result }) => {
+                const configured = configuredLimits[result.kind];
+                return (
+                  <tr key={result.kind}>
+                    <td>
+                      <div className="font-semibold">{label}</div>
+                      {result.rejectionMessage && (
+                        <div className="text-xs opacity-70 max-w-xs break-words">{result.rejectionMessage}</div>
+                      )}
+                    </td>
+                    <td className={result.limit !== configured ? "text-warning font-semibold" : ""}>
+                      {result.isBounded ? `${result.limit} bytes` : `Over ${result.limit} bytes`} (
+                      {formatKB(result.limit)})
+                    </td>
+                    <td>
+                      {configured} bytes ({formatKB(configured)})
+                    </td>
+                    <td>{result.requests}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {isUnbounded && (
+            <div className="alert alert-info">
+              The node accepted every size up to the max probed: raise the max to find its limit, which may be bounded
+              by the block gas limit instead.
+            </div>
+          )}
+          {hasMismatch ? (
+            <div className="alert alert-warning">
+              <div>
+                <p className="m-0">
+                  {targetNetwork.name}&apos;s node doesn&apos;t enforce the configured limits. To check sizes against
+                  what it enforces, add to <code>contractSizeLimits</code> in <code>scaffold.config.ts</code>:
+                </p>
+                <code className="text-xs">
+                  {`[${targetNetwork.id}]: { runtimeCodeLimit: ${getProbedLimit("runtime")}, initcodeLimit: ${getProbedLimit("initcode")} },`}
+                </code>
+              </div>
+            </div>
+          ) : (
+            !isUnbounded && (
+              <p className="text-sm m-0">{targetNetwork.name}&apos;s node enforces the configured limits.</p>
+            )
+          )}
+
+          {isLocalNetwork && (
+            <div className="space-y-2">
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={deployBoundaryContracts}
+                disabled={isDeploying || isProbing || !walletClient || connectedChain?.id !== targetNetwork.id}
+              >
+                {isDeploying ? "Deploying..." : "Deploy boundary contracts"}
+              </button>
+              <p className="text-xs opacity-70 m-0">
+                Deploys the contracts at each limit and one byte over it, to confirm simulations match mined
+                deployments.
+              </p>
+              {deployments.length > 0 && (
+                <ul className="space-y-1">
+                  {deployments.map(({ kind, size, hash, deployedSize, error }) => (
+                    <li key={`${kind}:${size}`} className="text-sm">
+                      <span
+                        className={`badge badge-sm mr-2 ${deployedSize !== undefined ? "badge-success" : "badge-error"}`}
+                      >
+                        {deployedSize !== undefined ? "Deployed" : "Failed"}
+                      </span>
+                      {PROBE_KINDS.find(probe => probe.kind === kind)?.label} of {size} bytes
+                      {deployedSize !== undefined && kind === "runtime" && `: ${deployedSize} bytes of code`}
+                      {error && <span className="text-xs opacity-70">: {error}</span>}
+                      {hash && <div className="text-xs opacity-70 font-mono break-all">{hash}</div>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import { useMemo, useState } from "react";
+import { Hex } from "viem";
+import { SizeOptimizationKind, findSizeOptimizations } from "~~/utils/contract-size";
+
+type SizeOptimizationAdviceProps = {
+  bytecode: Hex;
+};
+
+const COLLAPSED_FINDINGS = 8;
+const SHOWN_OFFSETS = 4;
+
+const KIND_BADGES: Record<SizeOptimizationKind, { label: string; className: string }> = {
+  "revert-string": { label: "Revert string", className: "badge-warning" },
+  "repeated-sequence": { label: "Repeated code", className: "badge-info" },
+  "large-constant": { label: "Constant", className: "badge-accent" },
+  "unreachable-code": { label: "Dead code", className: "badge-error" },
+};
+
+const formatOffset = (offset: number) => `0x${offset.toString(16).padStart(4, "0")}`;
+
+/**
+ * Ranked list of concrete size savings found in the bytecode
+ */
+export const SizeOptimizationAdvice = ({ bytecode }: SizeOptimizationAdviceProps) => {
+  const [showAll, setShowAll] = useState<boolean>(false);
+  const findings = useMemo(() => findSizeOptimizations(bytecode), [bytecode]);
+
+  if (findings.length === 0) {
+    return <p className="text-sm opacity-70 m-0 mt-4">No obvious size savings found in the bytecode.</p>;
+  }
+
+  const visibleFindings = showAll ? findings : findings.slice(0, COLLAPSED_FINDINGS);
+
+  return (
+    <div className="mt-4 space-y-2">
+      <h4 className="font-semibold m-0">Possible savings</h4>
+      <ol className="space-y-2 m-0 p-0 list-none">
+        {visibleFindings.map(finding => (
+          <li key={`${finding.kind}-${finding.offsets[0]}`} className="bg-base-200 rounded-lg p-3 text-sm">
+            <div className="flex justify-between items-start gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <span className={`badge badge-sm whitespace-nowrap ${KIND_BADGES[finding.kind].className}`}>
+                  {KIND_BADGES[finding.kind].label}
+                </span>
+                <span className="font-medium break-all">{finding.title}</span>
+              </div>
+              <span className="font-semibold text-green-500 whitespace-nowrap">~{finding.savings} bytes</span>
+            </div>
+            <p className="m-0 mt-1 opacity-80">{finding.suggestion}</p>
+            <p className="m-0 mt-1 text-xs opacity-60 font-mono">
+              at {finding.offsets.slice(0, SHOWN_OFFSETS).map(formatOffset).join(", ")}
+              {finding.offsets.length > SHOWN_OFFSETS && ` and ${finding.offsets.length - SHOWN_OFFSETS} more`}
+            </p>
+          </li>
+        ))}
+      </ol>
+      {findings.length > COLLAPSED_FINDINGS && (
+        <button className="btn btn-ghost btn-xs" onClick={() => setShowAll(!showAll)}>
+          {showAll ? "Show less" : `Show all ${findings.length} findings`}
+        </button>
+      )}
+      <p className="text-xs opacity-60 m-0">
+        Estimates from static analysis of the runtime bytecode. Findings can overlap, so savings don&apos;t add up.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+"use client";
+
+import { ChangeEvent, useMemo, useState } from "react";
+import {
+  NamedStorageLayout,
+  StorageChangeSeverity,
+  compareStorageLayouts,
+  formatStoragePosition,
+  parseStorageLayouts,
+} from "~~/utils/contract-size";
+
+type LayoutSide = {
+  fileName: string;
+  layouts: NamedStorageLayout[];
+  selectedIndex: number;
+};
+
+const SIDE_LABELS = ["Current implementation", "New implementation"] as const;
+
+const SEVERITY_BADGES: Record<StorageChangeSeverity, string> = {
+  error: "badge-error",
+  warning: "badge-warning",
+  info: "badge-ghost",
+};
+
+const getLayoutKey = ({ sourceName, name }: NamedStorageLayout) => (sourceName ? `${sourceName}:${name}` : name);
+
+/**
+ * Compares the storage layouts of two implementations before an upgrade, from build-info files or solc output
+ */
+export const StorageLayoutChecker = () => {
+  const [sides, setSides] = useState<(LayoutSide | null)[]>([null, null]);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileUpload = async (sideIndex: number, e: ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const layouts = parseStorageLayouts(await file.text(), file.name);
+      setSides(prev => {
+        // Pick the contract picked on the other side when this file has it too
+        const otherSide = prev[1 - sideIndex];
+        const otherKey = otherSide ? getLayoutKey(otherSide.layouts[otherSide.selectedIndex]) : undefined;
+        const matchingIndex = layouts.findIndex(layout => getLayoutKey(layout) === otherKey);
+        const next = [...prev];
+        next[sideIndex] = { fileName: file.name, layouts, selectedIndex: Math.max(matchingIndex, 0) };
+        return next;
+      });
+    } catch (err: any) {
+      setError(`${file.name}: ${err.message}`);
+    }
+  };
+
+  const selectLayout = (sideIndex: number, selectedIndex: number) =>
+    setSides(prev => prev.map((side, index) => (index === sideIndex && side ? { ...side, selectedIndex } : side)));
+
+  const [before, after] = sides.map(side => side?.layouts[side.selectedIndex]);
+  const comparison = useMemo(() => {
+    if (!before || !after) return undefined;
+    try {
+      return compareStorageLayouts(before.layout, after.layout);
+    } catch (err: any) {
+      return err.message as string;
+    }
+  }, [before, after]);
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold m-0">Storage layout</h3>
+        <p className="text-xs opacity-70 m-0">
+          Build-info files, solc standard JSON output or Foundry artifacts compiled with the <code>storageLayout</code>{" "}
+          output. Checked against OpenZeppelin&apos;s upgrade safety rules.
+        </p>
+      </div>
+      <div className="flex flex-col md:flex-row gap-4">
+        {SIDE_LABELS.map((label, sideIndex) => {
+          const side = sides[sideIndex];
+          return (
+            <div key={label} className="flex flex-col gap-2 w-full">
+              <span className="label-text text-sm">{label}</span>
+              <input
+                type="file"
+                accept=".json,application/json"
+                onChange={e => handleFileUpload(sideIndex, e)}
+                className="file-input file-input-bordered file-input-sm w-full"
+              />
+              {side && side.layouts.length > 1 && (
+                <select
+                  className="select select-bordered select-sm"
+                  value={side.selectedIndex}
+                  onChange={e => selectLayout(sideIndex, Number(e.target.value))}
+                >
+                  {side.layouts.map((layout, index) => (
+                    <option key={`${getLayoutKey(layout)}:${index}`} value={index}>
+                      {getLayoutKey(layout)}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {error && <div className="alert alert-error">{error}</div>}
+      {typeof comparison === "string" && <div className="alert alert-error">{comparison}</div>}
+
+      {comparison && typeof comparison !== "string" && (
+        <div className="bg-base-100 p-4 rounded-lg space-y-3">
+          <div className={`alert ${comparison.compatible ? "alert-success" : "alert-error"}`}>
+            {comparison.compatible
+              ? `${after?.name}'s storage layout is upgrade safe from ${before?.name}'s.`
+              : `Upgrading ${before?.name} to ${after?.name} would corrupt storage.`}
+          </div>
+          {comparison.changes.length === 0 ? (
+            <p className="text-sm m-0">The storage layouts are identical.</p>
+          ) : (
+            <ul className="space-y-2">
+              {comparison.changes.map((change, index) => (
+                <li key={index} className="text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className={`badge badge-sm ${SEVERITY_BADGES[change.severity]}`}>{change.severity}</span>
+                    <span>{change.message}</span>
+                  </div>
+                  {change.hint && <div className="text-xs opacity-70 ml-2">{change.hint}</div>}
+                  {change.after && change.before && change.kind !== "renamed" && change.kind !== "moved" && (
+                    <div className="text-xs opacity-70 ml-2 font-mono">
+                      {change.before.contract}: {formatStoragePosition(change.before)} → {change.after.contract}:{" "}
+                      {formatStoragePosition(change.after)}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,258 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { Address as AddressType, isAddress } from "viem";
+import { usePublicClient } from "wagmi";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { ContractSizeLimits } from "~~/scaffold.config";
+import { CodeVersion, findCodeVersions, formatKB, getContractSizeLimits } from "~~/utils/contract-size";
+
+type TimelineSizeCheckerProps = {
+  onCheckAtBlock: (address: AddressType, blockNumber: bigint) => void;
+};
+
+type TimelineResult = {
+  address: AddressType;
+  fromBlock: bigint;
+  toBlock: bigint;
+  versions: CodeVersion[];
+};
+
+const DEFAULT_SAMPLES = 20;
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = 8;
+
+const formatDelta = (delta: number) => (delta === 0 ? "-" : `${delta > 0 ? "+" : "-"}${formatKB(Math.abs(delta))}`);
+
+/**
+ * Step chart of the code size over the scanned block range, with the size limit as a dashed line
+ */
+const TimelineChart = ({ result, limits }: { result: TimelineResult; limits: ContractSizeLimits }) => {
+  const span = Number(result.toBlock - result.fromBlock) || 1;
+  const maxSize = Math.max(limits.runtimeCodeLimit, ...result.versions.map(version => version.size));
+  const toX = (blockNumber: bigint) =>
+    CHART_PADDING + (Number(blockNumber - result.fromBlock) / span) * (CHART_WIDTH - 2 * CHART_PADDING);
+  const toY = (size: number) => CHART_HEIGHT - CHART_PADDING - (size / maxSize) * (CHART_HEIGHT - 2 * CHART_PADDING);
+
+  const points = result.versions.flatMap((version, index) => {
+    const nextBlock = result.versions[index + 1]?.blockNumber ?? result.toBlock;
+    return [`${toX(version.blockNumber)},${toY(version.size)}`, `${toX(nextBlock)},${toY(version.size)}`];
+  });
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-48 bg-base-200 rounded-lg">
+      <line
+        x1={CHART_PADDING}
+        x2={CHART_WIDTH - CHART_PADDING}
+        y1={toY(limits.runtimeCodeLimit)}
+        y2={toY(limits.runtimeCodeLimit)}
+        className="stroke-green-500"
+        strokeDasharray="4 4"
+      />
+      <polyline points={points.join(" ")} fill="none" className="stroke-primary" strokeWidth={2} />
+      {result.versions.map(version => (
+        <circle
+          key={version.blockNumber.toString()}
+          cx={toX(version.blockNumber)}
+          cy={toY(version.size)}
+          r={4}
+          className="fill-primary"
+        >
+          <title>
+            Block {version.blockNumber.toString()}: {version.size > 0 ? formatKB(version.size) : "no code"}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+/**
+ * Finds every version of the code deployed at an address over a block range, e.g. across upgrades,
+ * self-destructs and redeployments
+ */
+export const TimelineSizeChecker = ({ onCheckAtBlock }: TimelineSizeCheckerProps) => {
+  const [address, setAddress] = useState<string>("");
+  const [fromBlock, setFromBlock] = useState<string>("0");
+  const [toBlock, setToBlock] = useState<string>("");
+  const [samples, setSamples] = useState<number>(DEFAULT_SAMPLES);
+  const [result, setResult] = useState<TimelineResult | null>(null);
+  const [requestCount, setRequestCount] = useState<number>(0);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const sizeLimits = useMemo(() => getContractSizeLimits(targetNetwork.id), [targetNetwork.id]);
+
+  const runTimeline = async () => {
+    setError(null);
+    if (!publicClient) {
+      setError("No public client found");
+      return;
+    }
+    if (!isAddress(address, { strict: false })) {
+      setError("Please enter a valid EVM address");
+      return;
+    }
+    const fromInput = fromBlock.trim() || "0";
+    const toInput = toBlock.trim();
+    if (!/^\d+$/.test(fromInput) || (toInput && !/^\d+$/.test(toInput))) {
+      setError("Block numbers must be non-negative integers");
+      return;
+    }
+    if (toInput && BigInt(fromInput) > BigInt(toInput)) {
+      setError("The start block must be before the end block");
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsRunning(true);
+    setResult(null);
+    setRequestCount(0);
+
+    try {
+      const start = BigInt(fromInput);
+      const end = toInput ? BigInt(toInput) : await publicClient.getBlockNumber();
+      if (start > end) {
+        setError(`The start block must be before the latest block (${end})`);
+        return;
+      }
+      const versions = await findCodeVersions(publicClient, address, start, end, {
+        samples,
+        signal: abortController.signal,
+        onProgress: setRequestCount,
+      });
+      setResult({ address, fromBlock: start, toBlock: end, versions });
+    } catch (err: any) {
+      if (!abortController.signal.aborted) {
+        // Pruned nodes can't serve old state, point at the likely cause
+        setError(
+          `${err.shortMessage || err.message || "Error fetching historical bytecode"}. Historical blocks may require an archive node.`,
+        );
+      }
+    } finally {
+      setIsRunning(false);
+      abortControllerRef.current = null;
+    }
+  };
+
+  const cancelTimeline = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  return (
+    <div className="flex flex-col space-y-4">
+      <input
+        type="text"
+        placeholder="Enter contract address (0x...)"
+        value={address}
+        onChange={e => setAddress(e.target.value)}
+        className="input input-bordered w-full"
+      />
+      <div className="flex flex-col md:flex-row gap-4 md:items-end">
+        <label className="form-control w-full">
+          <span className="label-text text-sm mb-1">From block</span>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={fromBlock}
+            onChange={e => setFromBlock(e.target.value)}
+            className="input input-bordered input-sm"
+          />
+        </label>
+        <label className="form-control w-full">
+          <span className="label-text text-sm mb-1">To block</span>
+          <input
+            type="text"
+            inputMode="numeric"
+            placeholder="Latest"
+            value={toBlock}
+            onChange={e => setToBlock(e.target.value)}
+            className="input input-bordered input-sm"
+          />
+        </label>
+        <label className="form-control md:w-32">
+          <span className="label-text text-sm mb-1">Samples</span>
+          <input
+            type="number"
+            min={2}
+            max={200}
+            value={samples}
+            onChange={e => setSamples(Math.min(200, Math.max(2, Number(e.target.value) || DEFAULT_SAMPLES)))}
+            className="input input-bordered input-sm"
+          />
+        </label>
+        {isRunning ? (
+          <button className="btn btn-error btn-sm whitespace-nowrap" onClick={cancelTimeline}>
+            Cancel ({requestCount} blocks read)
+          </button>
+        ) : (
+          <button className="btn btn-primary btn-sm whitespace-nowrap" onClick={runTimeline}>
+            Build Timeline
+          </button>
+        )}
+      </div>
+      <p className="text-xs opacity-70 m-0">
+        The range is sampled, then each change is narrowed down to its exact block. A version that came and went between
+        two samples can be missed: raise the sample count for long ranges.
+      </p>
+
+      {error && <div className="alert alert-error">{error}</div>}
+
+      {result && (
+        <div className="bg-base-100 p-4 rounded-lg space-y-3">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-semibold">
+              {result.versions.length} version{result.versions.length === 1 ? "" : "s"}
+            </h3>
+            <span className="text-xs opacity-70">
+              Blocks {result.fromBlock.toString()} - {result.toBlock.toString()}
+            </span>
+          </div>
+          <TimelineChart result={result} limits={sizeLimits} />
+          <div className="overflow-x-auto">
+            <table className="table table-compact w-full">
+              <thead>
+                <tr>
+                  <th>From block</th>
+                  <th>Size</th>
+                  <th>Delta</th>
+                  <th>Code Hash</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.versions.map((version, index) => (
+                  <tr key={version.blockNumber.toString()} className="hover">
+                    <td>{index === 0 ? `≤ ${version.blockNumber.toString()}` : version.blockNumber.toString()}</td>
+                    <td>{version.size > 0 ? formatKB(version.size) : "No code"}</td>
+                    <td className={version.delta > 0 ? "text-error" : version.delta < 0 ? "text-success" : ""}>
+                      {formatDelta(version.delta)}
+                    </td>
+                    <td className="font-mono text-xs" title={version.codeHash}>
+                      {version.codeHash ? `${version.codeHash.slice(0, 10)}…${version.codeHash.slice(-8)}` : "-"}
+                    </td>
+                    <td>
+                      <button
+                        className="btn btn-xs btn-secondary"
+                        onClick={() => onCheckAtBlock(result.address, version.blockNumber)}
+                        disabled={version.size === 0}
+                      >
+                        Check
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
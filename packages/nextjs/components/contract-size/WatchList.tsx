@@ -0,0 +1,398 @@
+"use client";
+
+import { Fragment, useEffect, useRef, useState } from "react";
+import { useInterval } from "usehooks-ts";
+import { PublicClient, isAddress, keccak256 } from "viem";
+import { getPublicClient } from "wagmi/actions";
+import { TrashIcon } from "@heroicons/react/24/outline";
+import { Address } from "~~/components/scaffold-eth";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+import scaffoldConfig from "~~/scaffold.config";
+import { wagmiConfig } from "~~/services/web3/wagmiConfig";
+import {
+  CodeChange,
+  CodeChangeKind,
+  WatchedContract,
+  findCodeVersions,
+  formatKB,
+  getBytecodeSize,
+  getChainName,
+  getCodeChanges,
+  postCodeChangeWebhook,
+} from "~~/utils/contract-size";
+import { notification } from "~~/utils/scaffold-eth";
+
+type WatchListProps = {
+  // Address last checked in single mode, offered as a shortcut to start watching it
+  checkedAddress?: string;
+};
+
+type WatchSettings = {
+  browserNotifications: boolean;
+  webhookUrl: string;
+};
+
+const WATCH_LIST_STORAGE_KEY = "contractSizeWatchList";
+const WATCH_SETTINGS_STORAGE_KEY = "contractSizeWatchSettings";
+
+const CHANGE_LABELS: Record<CodeChangeKind, { label: string; className: string }> = {
+  deployed: { label: "Deployed", className: "badge-success" },
+  upgraded: { label: "Code replaced", className: "badge-warning" },
+  "self-destructed": { label: "Self-destructed", className: "badge-error" },
+  redeployed: { label: "Redeployed", className: "badge-info" },
+};
+
+const getWatchKey = (contract: { chainId: number; address: string }) =>
+  `${contract.chainId}:${contract.address.toLowerCase()}`;
+
+// Contracts are watched on the configured target networks only
+const getClient = (chainId: number) =>
+  getPublicClient(wagmiConfig, { chainId: chainId as (typeof wagmiConfig)["chains"][number]["id"] }) as
+    | PublicClient
+    | undefined;
+
+const describeChange = (contract: WatchedContract, change: CodeChange) =>
+  `${contract.address} on ${getChainName(contract.chainId)}: ${CHANGE_LABELS[change.kind].label.toLowerCase()} at block ${change.blockNumber} (${formatKB(change.previousSize)} → ${formatKB(change.size)})`;
+
+/**
+ * Tracks the code hash of a list of contracts, polling at the configured `pollingInterval`,
+ * and alerts when one is deployed, upgraded, self-destructed or redeployed
+ */
+export const WatchList = ({ checkedAddress }: WatchListProps) => {
+  const [watchList, setWatchList] = useState<WatchedContract[]>([]);
+  const [settings, setSettings] = useState<WatchSettings>({ browserNotifications: false, webhookUrl: "" });
+  const [newAddress, setNewAddress] = useState<string>("");
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState<boolean>(false);
+  const [isLoaded, setIsLoaded] = useState<boolean>(false);
+  const isPollingRef = useRef<boolean>(false);
+
+  const { targetNetwork } = useTargetNetwork();
+
+  // Load the watch list and its settings from local storage on component mount
+  useEffect(() => {
+    try {
+      const savedWatchList = localStorage.getItem(WATCH_LIST_STORAGE_KEY);
+      if (savedWatchList) setWatchList(JSON.parse(savedWatchList));
+      const savedSettings = localStorage.getItem(WATCH_SETTINGS_STORAGE_KEY);
+      if (savedSettings) setSettings(JSON.parse(savedSettings));
+    } catch (e) {
+      console.error("Failed to parse watch list from localStorage");
+    }
+    setIsLoaded(true);
+  }, []);
+
+  // Save the watch list whenever it changes, once the saved one has been loaded
+  useEffect(() => {
+    if (isLoaded) {
+      localStorage.setItem(WATCH_LIST_STORAGE_KEY, JSON.stringify(watchList));
+    }
+  }, [watchList, isLoaded]);
+
+  const saveSettings = (newSettings: WatchSettings) => {
+    setSettings(newSettings);
+    localStorage.setItem(WATCH_SETTINGS_STORAGE_KEY, JSON.stringify(newSettings));
+  };
+
+  const toggleBrowserNotifications = async (enabled: boolean) => {
+    if (enabled && typeof Notification !== "undefined" && Notification.permission !== "granted") {
+      const permission = await Notification.requestPermission();
+      if (permission !== "granted") {
+        notification.warning("Browser notifications are blocked for this site");
+        return;
+      }
+    }
+    saveSettings({ ...settings, browserNotifications: enabled });
+  };
+
+  const alertChange = async (contract: WatchedContract, change: CodeChange) => {
+    const message = describeChange(contract, change);
+    notification.warning(message, { duration: 10000 });
+
+    if (settings.browserNotifications && typeof Notification !== "undefined" && Notification.permission === "granted") {
+      new Notification("Contract code changed", { body: message });
+    }
+
+    if (settings.webhookUrl) {
+      try {
+        await postCodeChangeWebhook(settings.webhookUrl, {
+          event: "code-changed",
+          chainId: contract.chainId,
+          address: contract.address,
+          ...change,
+        });
+      } catch (e) {
+        console.error("Failed to deliver code change webhook", e);
+      }
+    }
+  };
+
+  const sendTestWebhook = async () => {
+    try {
+      await postCodeChangeWebhook(settings.webhookUrl, {
+        event: "code-changed",
+        chainId: targetNetwork.id,
+        address: "0x0000000000000000000000000000000000000000",
+        kind: "upgraded",
+        blockNumber: "0",
+        detectedAt: Date.now(),
+        previousSize: 0,
+        size: 0,
+      });
+      notification.success("Test webhook delivered");
+    } catch (err: any) {
+      notification.error(err.message || "Failed to deliver the test webhook");
+    }
+  };
+
+  const addToWatchList = async (address: string) => {
+    setError(null);
+    if (!isAddress(address, { strict: false })) {
+      setError("Please enter a valid EVM address");
+      return;
+    }
+    const key = getWatchKey({ chainId: targetNetwork.id, address });
+    if (watchList.some(contract => getWatchKey(contract) === key)) {
+      setError(`Already watching this address on ${targetNetwork.name}`);
+      return;
+    }
+
+    const client = getClient(targetNetwork.id);
+    if (!client) {
+      setError("No public client found");
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      const blockNumber = await client.getBlockNumber();
+      const bytecode = await client.getCode({ address, blockNumber });
+      const hasCode = !!bytecode && bytecode !== "0x";
+      setWatchList(prev => [
+        ...prev,
+        {
+          address,
+          chainId: targetNetwork.id,
+          codeHash: hasCode ? keccak256(bytecode) : undefined,
+          size: getBytecodeSize(bytecode),
+          lastCheckedBlock: blockNumber.toString(),
+          addedAt: Date.now(),
+          changes: [],
+        },
+      ]);
+      setNewAddress("");
+    } catch (err: any) {
+      setError(err.shortMessage || err.message || "Error fetching contract bytecode");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const removeFromWatchList = (key: string) => {
+    setWatchList(prev => prev.filter(contract => getWatchKey(contract) !== key));
+  };
+
+  const pollContract = async (contract: WatchedContract): Promise<WatchedContract> => {
+    const client = getClient(contract.chainId);
+    if (!client) return contract;
+
+    const blockNumber = await client.getBlockNumber();
+    const bytecode = await client.getCode({ address: contract.address, blockNumber });
+    const codeHash = bytecode && bytecode !== "0x" ? keccak256(bytecode) : undefined;
+    if (codeHash === contract.codeHash) {
+      return { ...contract, lastCheckedBlock: blockNumber.toString() };
+    }
+
+    // Bisect since the last poll to find the exact block, and any version that came and went in between
+    const detectedAt = Date.now();
+    const hadCode = contract.changes.some(change => change.previousCodeHash || change.codeHash);
+    const changes = await findCodeVersions(client, contract.address, BigInt(contract.lastCheckedBlock), blockNumber, {
+      samples: 2,
+    })
+      .then(versions => getCodeChanges(versions, detectedAt, hadCode))
+      .catch(() =>
+        getCodeChanges(
+          [
+            {
+              blockNumber: BigInt(contract.lastCheckedBlock),
+              codeHash: contract.codeHash,
+              size: contract.size,
+              delta: 0,
+            },
+            { blockNumber, codeHash, size: getBytecodeSize(bytecode), delta: 0 },
+          ],
+          detectedAt,
+          hadCode,
+        ),
+      );
+
+    const updatedContract = {
+      ...contract,
+      codeHash,
+      size: getBytecodeSize(bytecode),
+      lastCheckedBlock: blockNumber.toString(),
+      changes: [...[...changes].reverse(), ...contract.changes],
+    };
+    for (const change of changes) {
+      await alertChange(updatedContract, change);
+    }
+    return updatedContract;
+  };
+
+  const pollWatchList = async () => {
+    if (isPollingRef.current) return;
+    isPollingRef.current = true;
+    try {
+      const results = await Promise.all(
+        watchList.map(contract =>
+          pollContract(contract).catch(e => {
+            console.error(`Failed to poll ${contract.address}`, e);
+            return contract;
+          }),
+        ),
+      );
+      const updates = new Map(results.map(contract => [getWatchKey(contract), contract]));
+      // Merge by key so contracts added or removed during the poll aren't lost
+      setWatchList(prev => prev.map(contract => updates.get(getWatchKey(contract)) ?? contract));
+    } finally {
+      isPollingRef.current = false;
+    }
+  };
+
+  useInterval(pollWatchList, watchList.length > 0 ? scaffoldConfig.pollingInterval : null);
+
+  const isCheckedAddressWatched =
+    !!checkedAddress &&
+    watchList.some(
+      contract => getWatchKey(contract) === getWatchKey({ chainId: targetNetwork.id, address: checkedAddress }),
+    );
+
+  return (
+    <div className="bg-base-100 p-4 rounded-lg space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold">Watch List</h3>
+        <span className="text-xs opacity-70">Checked every {scaffoldConfig.pollingInterval / 1000}s</span>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-2">
+        <input
+          type="text"
+          placeholder={`Contract address to watch on ${targetNetwork.name} (0x...)`}
+          value={newAddress}
+          onChange={e => setNewAddress(e.target.value)}
+          className="input input-bordered input-sm w-full"
+        />
+        <button
+          className="btn btn-secondary btn-sm whitespace-nowrap"
+          onClick={() => addToWatchList(newAddress)}
+          disabled={isAdding}
+        >
+          {isAdding ? "Adding..." : "Watch"}
+        </button>
+        {checkedAddress && !isCheckedAddressWatched && (
+          <button
+            className="btn btn-outline btn-sm whitespace-nowrap"
+            onClick={() => addToWatchList(checkedAddress)}
+            disabled={isAdding}
+          >
+            Watch checked contract
+          </button>
+        )}
+      </div>
+
+      {error && <div className="alert alert-error">{error}</div>}
+
+      {watchList.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="table table-compact w-full">
+            <thead>
+              <tr>
+                <th>Address</th>
+                <th>Chain</th>
+                <th>Size</th>
+                <th>Changes</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {watchList.map(contract => {
+                const key = getWatchKey(contract);
+                return (
+                  <Fragment key={key}>
+                    <tr className="hover">
+                      <td>
+                        <Address address={contract.address} size="sm" />
+                      </td>
+                      <td className="text-xs">{getChainName(contract.chainId)}</td>
+                      <td>{contract.codeHash ? formatKB(contract.size) : "No code"}</td>
+                      <td>
+                        <button
+                          className="btn btn-ghost btn-xs"
+                          onClick={() => setExpandedKey(expandedKey === key ? null : key)}
+                          disabled={contract.changes.length === 0}
+                        >
+                          {contract.changes.length}
+                        </button>
+                      </td>
+                      <td>
+                        <button className="btn btn-ghost btn-xs" onClick={() => removeFromWatchList(key)}>
+                          <TrashIcon className="h-3 w-3" />
+                        </button>
+                      </td>
+                    </tr>
+                    {expandedKey === key && (
+                      <tr>
+                        <td colSpan={5}>
+                          <ul className="text-xs space-y-1">
+                            {contract.changes.map(change => (
+                              <li key={`${change.blockNumber}-${change.codeHash}`} className="flex items-center gap-2">
+                                <span className={`badge badge-sm ${CHANGE_LABELS[change.kind].className}`}>
+                                  {CHANGE_LABELS[change.kind].label}
+                                </span>
+                                Block {change.blockNumber} · {formatKB(change.previousSize)} → {formatKB(change.size)}
+                                <span className="opacity-60">{new Date(change.detectedAt).toLocaleString()}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="collapse collapse-arrow bg-base-200">
+        <input type="checkbox" />
+        <div className="collapse-title text-sm font-medium">Alerts</div>
+        <div className="collapse-content space-y-2">
+          <label className="label cursor-pointer justify-start gap-2">
+            <input
+              type="checkbox"
+              className="toggle toggle-sm"
+              checked={settings.browserNotifications}
+              onChange={e => toggleBrowserNotifications(e.target.checked)}
+            />
+            <span className="label-text text-sm">Browser notifications</span>
+          </label>
+          <div className="flex flex-col md:flex-row gap-2">
+            <input
+              type="text"
+              placeholder="Webhook URL (optional, receives a JSON POST per change)"
+              value={settings.webhookUrl}
+              onChange={e => saveSettings({ ...settings, webhookUrl: e.target.value.trim() })}
+              className="input input-bordered input-sm w-full"
+            />
+            <button className="btn btn-outline btn-sm" onClick={sendTestWebhook} disabled={!settings.webhookUrl}>
+              Send Test
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
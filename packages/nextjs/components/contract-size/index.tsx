@@ -0,0 +1,21 @@
+export * from "./AddressClassificationResult";
+export * from "./BatchSizeChecker";
+export * from "./BuildArtifactDropZone";
+export * from "./BuildArtifactResult";
+export * from "./BytecodeAnatomy";
+export * from "./BytecodeDiffChecker";
+export * from "./CreationSizeResult";
+export * from "./CrossNetworkSizeChecker";
+export * from "./DeploymentCostEstimate";
+export * from "./DryRunSizeChecker";
+export * from "./FunctionSizeBreakdown";
+export * from "./ProxySizeResult";
+export * from "./ReportComparison";
+export * from "./ReportExportButtons";
+export * from "./SizeBar";
+export * from "./SizeHistory";
+export * from "./SizeLimitProbe";
+export * from "./SizeOptimizationAdvice";
+export * from "./StorageLayoutChecker";
+export * from "./TimelineSizeChecker";
+export * from "./WatchList";
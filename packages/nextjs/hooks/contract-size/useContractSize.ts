@@ -0,0 +1,46 @@
+import { useCallback, useState } from "react";
+import { Address } from "viem";
+import { usePublicClient } from "wagmi";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { ContractSizeCheck, checkContractSize } from "~~/utils/contract-size";
+
+/**
+ * Checks contract sizes on the target network with `checkContractSize`, keeping the last result, loading state
+ * and error for the UI. `check` also returns the result, and rethrows after recording the error.
+ */
+export const useContractSize = () => {
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const [data, setData] = useState<ContractSizeCheck | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const check = useCallback(
+    async (address: Address, blockNumber?: bigint) => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        if (!publicClient) {
+          throw new Error("No public client found");
+        }
+        const result = await checkContractSize(publicClient, address, { blockNumber });
+        setData(result);
+        return result;
+      } catch (err: any) {
+        setData(null);
+        setError(err.shortMessage || err.message || "Error fetching contract bytecode");
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [publicClient],
+  );
+
+  const reset = useCallback(() => {
+    setData(null);
+    setError(null);
+  }, []);
+
+  return { data, isLoading, error, check, reset };
+};
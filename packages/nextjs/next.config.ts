@@ -18,6 +18,10 @@ const nextConfig: NextConfig = {
 
 const isIpfs = process.env.NEXT_PUBLIC_IPFS_BUILD === "true";
 
+// Route handlers that need a server (the size API, badges, Open Graph cards) are named route.server.ts(x),
+// so static exports leave them out: IPFS builds serve the checker without them
+nextConfig.pageExtensions = isIpfs ? ["tsx", "ts", "jsx", "js"] : ["server.tsx", "server.ts", "tsx", "ts", "jsx", "js"];
+
 if (isIpfs) {
   nextConfig.output = "export";
   nextConfig.trailingSlash = true;
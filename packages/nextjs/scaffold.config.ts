@@ -1,10 +1,20 @@
 import * as chains from "viem/chains";
 
+export type ContractSizeLimits = {
+  // Max runtime (deployed) code size in bytes, e.g. EIP-170
+  runtimeCodeLimit: number;
+  // Max initcode size in bytes, e.g. EIP-3860
+  initcodeLimit: number;
+  // Optional runtime size range (in bytes) the checker recommends aiming for
+  targetBand?: { min: number; max: number };
+};
+
 export type ScaffoldConfig = {
   targetNetworks: readonly chains.Chain[];
   pollingInterval: number;
   alchemyApiKey: string;
   rpcOverrides?: Record<number, string>;
+  contractSizeLimits?: Record<number, ContractSizeLimits>;
   walletConnectProjectId: string;
   onlyLocalBurnerWallet: boolean;
 };
@@ -32,6 +42,14 @@ const scaffoldConfig = {
     // [chains.mainnet.id]: "https://mainnet.buidlguidl.com",
   },
 
+  // If a network enforces different code size limits than the ones in NETWORKS_EXTRA_DATA
+  // (e.g. a local chain started with custom limits), you can override them here.
+  // The key is the chain ID, and the value is the limit profile in bytes
+  contractSizeLimits: {
+    // Example:
+    // [chains.hardhat.id]: { runtimeCodeLimit: 49152, initcodeLimit: 98304 },
+  },
+
   // This is ours WalletConnect's default project ID.
   // You can get your own at https://cloud.walletconnect.com
   // It's recommended to store it in an env variable:
@@ -0,0 +1,172 @@
+/**
+ * Checks deployed contract sizes from the command line, e.g. in CI:
+ *
+ *   yarn size-check 0xabc... 0xdef... --chain monadTestnet --budget 100KB
+ *
+ * Exits with 1 when a contract exceeds the chain's limit or the budget, and 2 on usage or RPC errors.
+ */
+import { parseArgs } from "node:util";
+import { Address, Chain, PublicClient, createPublicClient, http } from "viem";
+import * as chains from "viem/chains";
+import scaffoldConfig from "~~/scaffold.config";
+import { getRpcTransport } from "~~/services/web3/rpcTransport";
+import {
+  ContractSizeCheck,
+  SizeCheckViolation,
+  checkContractSize,
+  formatKB,
+  getBytecodeSize,
+  getSizeCheckViolation,
+  mapWithConcurrency,
+  parseAddressList,
+  parseByteSize,
+} from "~~/utils/contract-size";
+
+type SizeCheckRow = {
+  address: string;
+  check?: ContractSizeCheck;
+  violation?: SizeCheckViolation;
+  error?: string;
+};
+
+const CONCURRENCY = 5;
+
+const USAGE = `Usage: yarn size-check <address...> [options]
+
+Options:
+  --chain <id|name>  Chain id or viem chain name (default: the first target network)
+  --rpc <url>        RPC URL, instead of the app's RPC setup
+  --block <number>   Block to read the code at (default: latest)
+  --budget <size>    Size budget in bytes, or with a KB suffix (e.g. 100KB)
+  --json             Print JSON instead of a table
+  --help             Show this message`;
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(2);
+};
+
+const findChain = (value: string): Chain | undefined => {
+  const id = /^\d+$/.test(value) ? Number(value) : undefined;
+  return Object.entries(chains as Record<string, Chain>).find(([name, chain]) =>
+    id !== undefined ? chain.id === id : name.toLowerCase() === value.toLowerCase(),
+  )?.[1];
+};
+
+const parseBudget = (value: string) => parseByteSize(value) ?? fail(`Invalid budget "${value}"`);
+
+const getStatus = (row: SizeCheckRow) => {
+  if (row.error) return "error";
+  if (!row.check?.sizeData) return `no code (${row.check?.classification.kind})`;
+  if (row.violation === "limit") return "over limit";
+  if (row.violation === "budget") return "over budget";
+  return "ok";
+};
+
+const printTable = (rows: SizeCheckRow[], chain: Chain, budget?: number) => {
+  const table = rows.flatMap(row => {
+    const size = row.check?.sizeData ? getBytecodeSize(row.check.bytecode) : undefined;
+    const line = [
+      row.address,
+      size !== undefined ? formatKB(size) : "-",
+      row.check?.sizeData ? `${row.check.sizeData.percentageOfLimit.toFixed(1)}%` : "-",
+      row.error ? `error: ${row.error}` : getStatus(row),
+    ];
+    const implementations = (row.check?.proxy?.implementations ?? []).map(implementation => [
+      `  ↳ ${implementation.role} ${implementation.address}`,
+      formatKB(implementation.size),
+      `${((implementation.size / (row.check?.limits.runtimeCodeLimit ?? 1)) * 100).toFixed(1)}%`,
+      row.check?.proxy?.kind ?? "",
+    ]);
+    return [line, ...implementations];
+  });
+
+  const header = ["Address", "Size", "% of limit", "Status"];
+  const widths = header.map((title, column) => Math.max(title.length, ...table.map(line => line[column].length)));
+  const format = (line: string[]) =>
+    line
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join("  ")
+      .trimEnd();
+
+  const limit = rows.find(row => row.check)?.check?.limits.runtimeCodeLimit;
+  console.log(
+    `${chain.name} (${chain.id})` +
+      (limit ? `, limit ${formatKB(limit)}` : "") +
+      (budget !== undefined ? `, budget ${formatKB(budget)}` : ""),
+  );
+  console.log(format(header));
+  console.log(widths.map(width => "-".repeat(width)).join("  "));
+  table.forEach(line => console.log(format(line)));
+};
+
+const toJson = (rows: SizeCheckRow[], budget?: number) =>
+  JSON.stringify(
+    rows.map(({ address, check, violation, error }) => ({
+      address,
+      chainId: check?.chainId,
+      blockNumber: check?.blockNumber.toString(),
+      kind: check?.classification.kind,
+      size: check?.sizeData ? getBytecodeSize(check.bytecode) : undefined,
+      limit: check?.limits.runtimeCodeLimit,
+      budget,
+      status: getStatus({ address, check, violation, error }),
+      proxy: check?.proxy,
+      error,
+    })),
+    null,
+    2,
+  );
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      chain: { type: "string" },
+      rpc: { type: "string" },
+      block: { type: "string" },
+      budget: { type: "string" },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const { addresses, invalid } = parseAddressList(positionals.join(" "));
+  if (invalid.length > 0) fail(`Invalid address: ${invalid.join(", ")}`);
+  if (addresses.length === 0) fail("No address given");
+  if (values.block !== undefined && !/^\d+$/.test(values.block)) fail("The block number must be an integer");
+
+  const chain = values.chain ? findChain(values.chain) : scaffoldConfig.targetNetworks[0];
+  if (!chain) return fail(`Unknown chain "${values.chain}"`);
+  const budget = values.budget !== undefined ? parseBudget(values.budget) : undefined;
+  const blockNumber = values.block !== undefined ? BigInt(values.block) : undefined;
+
+  const client = createPublicClient({
+    chain,
+    transport: values.rpc ? http(values.rpc) : getRpcTransport(chain.id),
+  }) as PublicClient;
+
+  const rows = (await mapWithConcurrency(addresses, CONCURRENCY, async (address): Promise<SizeCheckRow> => {
+    try {
+      const check = await checkContractSize(client, address as Address, { blockNumber });
+      return { address, check, violation: getSizeCheckViolation(check, budget) };
+    } catch (err: any) {
+      return { address, error: err.shortMessage || err.message || "Error fetching contract bytecode" };
+    }
+  })) as SizeCheckRow[];
+
+  if (values.json) console.log(toJson(rows, budget));
+  else printTable(rows, chain, budget);
+
+  if (rows.some(row => row.error)) process.exit(2);
+  if (rows.some(row => row.violation)) process.exit(1);
+};
+
+main().catch(err => {
+  console.error(err.message ?? err);
+  process.exit(2);
+});
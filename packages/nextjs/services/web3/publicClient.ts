@@ -0,0 +1,21 @@
+import { getRpcTransport } from "./rpcTransport";
+import { PublicClient, createPublicClient } from "viem";
+import scaffoldConfig from "~~/scaffold.config";
+
+const publicClients = new Map<number, PublicClient>();
+
+/**
+ * Public client of a target network over the app's RPC setup, for code running outside of wagmi
+ * (route handlers, server components). Undefined for chains the app doesn't target.
+ */
+export const getTargetNetworkPublicClient = (chainId: number): PublicClient | undefined => {
+  const chain = scaffoldConfig.targetNetworks.find(network => network.id === chainId);
+  if (!chain) return undefined;
+
+  let client = publicClients.get(chainId);
+  if (!client) {
+    client = createPublicClient({ chain, transport: getRpcTransport(chainId) }) as PublicClient;
+    publicClients.set(chainId, client);
+  }
+  return client;
+};
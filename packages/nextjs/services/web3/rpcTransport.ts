@@ -0,0 +1,25 @@
+import { Transport, fallback, http } from "viem";
+import scaffoldConfig, { DEFAULT_ALCHEMY_API_KEY, ScaffoldConfig } from "~~/scaffold.config";
+import { getAlchemyHttpUrl } from "~~/utils/scaffold-eth/networks";
+
+/**
+ * RPC transport of a chain: the scaffold.config override, else Alchemy and the chain's default RPC.
+ * Free of wallet dependencies, so scripts and route handlers can use the app's RPC setup too.
+ */
+export const getRpcTransport = (chainId: number): Transport => {
+  let rpcFallbacks = [http()];
+
+  const rpcOverrideUrl = (scaffoldConfig.rpcOverrides as ScaffoldConfig["rpcOverrides"])?.[chainId];
+  if (rpcOverrideUrl) {
+    rpcFallbacks = [http(rpcOverrideUrl), http()];
+  } else {
+    const alchemyHttpUrl = getAlchemyHttpUrl(chainId);
+    if (alchemyHttpUrl) {
+      const isUsingDefaultKey = scaffoldConfig.alchemyApiKey === DEFAULT_ALCHEMY_API_KEY;
+      // If using default Scaffold-ETH 2 API key, we prioritize the default RPC
+      rpcFallbacks = isUsingDefaultKey ? [http(), http(alchemyHttpUrl)] : [http(alchemyHttpUrl), http()];
+    }
+  }
+
+  return fallback(rpcFallbacks);
+};
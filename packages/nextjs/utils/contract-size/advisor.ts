@@ -0,0 +1,257 @@
+import { getBytecodeAnatomy } from "./anatomy";
+import { Instruction, OPCODES, disassemble, formatInstruction, isPush } from "./evm";
+import { BasicBlock, getBasicBlocks, getReachableBlocks } from "./functions";
+import { Hex, bytesToHex, hexToBytes } from "viem";
+
+export type SizeOptimizationKind = "revert-string" | "repeated-sequence" | "large-constant" | "unreachable-code";
+
+export type SizeOptimization = {
+  kind: SizeOptimizationKind;
+  title: string;
+  suggestion: string;
+  // Estimated bytes saved by applying the suggestion
+  savings: number;
+  // Offsets of the code the finding is about
+  offsets: number[];
+};
+
+// Findings saving less than this aren't worth the noise
+const MIN_SAVINGS = 8;
+
+// Bytes solc spends encoding `Error(string)` besides the string itself: the offset and length words and their MSTOREs
+const REVERT_STRING_ENCODING_SIZE = 21;
+const MIN_REVERT_STRING_LENGTH = 4;
+
+// Sharing code as an internal function costs, per call site, pushing the return and function offsets, the JUMP
+// and the return JUMPDEST, plus the function's own JUMPDEST and return JUMP once
+const INTERNAL_CALL_SIZE = 8;
+const INTERNAL_FUNCTION_OVERHEAD = 2;
+
+// Shortest instruction run used to seed the repeated sequence search
+const SEQUENCE_SEED_LENGTH = 4;
+const MIN_REPEATED_SEQUENCE_SIZE = 24;
+
+const PUSH32_SIZE = 33;
+
+const isErrorSelectorPush = (instruction: Instruction) => {
+  if (!instruction.pushData) return false;
+  const data = bytesToHex(instruction.pushData);
+  // `Error(string)` is pushed as is, shifted from 0x461bcd by the legacy optimizer, or as a full word
+  return data === "0x08c379a0" || data === "0x461bcd" || data === `0x08c379a0${"0".repeat(56)}`;
+};
+
+/**
+ * Text of a pushed string literal: printable ASCII, left-aligned in the word (so possibly zero-padded)
+ */
+const getPushedText = (pushData: Uint8Array | undefined) => {
+  if (!pushData) return undefined;
+  let end = pushData.length;
+  while (end > 0 && pushData[end - 1] === 0) end--;
+  const text = pushData.slice(0, end);
+  if (text.length === 0 || !text.every(byte => byte >= 0x20 && byte <= 0x7e)) return undefined;
+  return String.fromCharCode(...text);
+};
+
+// Comparisons push selectors and other 4-byte keys that can happen to be printable
+const COMPARISON_OPCODES = new Set<number>([OPCODES.EQ, OPCODES.LT, OPCODES.GT]);
+
+const findRevertStrings = (blocks: BasicBlock[]): SizeOptimization[] => {
+  const instructions = blocks.flatMap(block => block.instructions);
+  if (!instructions.some(isErrorSelectorPush)) return [];
+
+  const messages = new Map<string, { offsets: number[]; savings: number }>();
+  blocks.forEach(block => {
+    // Messages over 32 bytes are pushed word by word, within the block that stores them
+    const parts: { text: string; instruction: Instruction }[] = [];
+    block.instructions.forEach((instruction, index) => {
+      if (!isPush(instruction.opcode)) return;
+      const next = block.instructions[index + 1];
+      if (next && COMPARISON_OPCODES.has(next.opcode)) return;
+      const text = getPushedText(instruction.pushData);
+      if (text === undefined) return;
+      // Short printable pushes are mostly memory offsets and lengths, unless they continue a message: the tail of a
+      // message is left-aligned, either as a padded PUSH32 or shifted into place with SHL
+      const previous = parts[parts.length - 1];
+      const isContinuation =
+        previous?.instruction.opcode === OPCODES.PUSH32 &&
+        previous.text.length === 32 &&
+        (instruction.opcode === OPCODES.PUSH32 || block.instructions[index + 2]?.opcode === OPCODES.SHL);
+      if (text.length >= MIN_REVERT_STRING_LENGTH || isContinuation) parts.push({ text, instruction });
+    });
+    const message = parts.map(part => part.text).join("");
+    if (message.length < MIN_REVERT_STRING_LENGTH || !/[a-z]/i.test(message)) return;
+
+    const pushedSize = parts.reduce((total, part) => total + part.instruction.size, 0);
+    const existing = messages.get(message) ?? { offsets: [], savings: 0 };
+    messages.set(message, {
+      offsets: [...existing.offsets, parts[0].instruction.pc],
+      savings: existing.savings + pushedSize + REVERT_STRING_ENCODING_SIZE,
+    });
+  });
+
+  return [...messages.entries()].map(([message, { offsets, savings }]) => ({
+    kind: "revert-string",
+    title: `Revert string "${message}"${offsets.length > 1 ? ` (${offsets.length} times)` : ""}`,
+    suggestion: "Replace the message with a custom error, which only costs a 4-byte selector",
+    savings,
+    offsets,
+  }));
+};
+
+/**
+ * Finds instruction runs repeated within basic blocks, by seeding on short runs then extending every copy
+ * for as long as they all match. Runs already reported aren't reported again as part of another.
+ */
+const findRepeatedSequences = (blocks: BasicBlock[]): SizeOptimization[] => {
+  const instructions = blocks.flatMap(block => block.instructions);
+  const blockIndexes = blocks.flatMap((block, index) => block.instructions.map(() => index));
+  const keys = instructions.map(formatInstruction);
+  const inSameBlock = (start: number, end: number) =>
+    end < instructions.length && blockIndexes[start] === blockIndexes[end];
+
+  const seeds = new Map<string, number[]>();
+  for (let i = 0; i + SEQUENCE_SEED_LENGTH <= instructions.length; i++) {
+    if (!inSameBlock(i, i + SEQUENCE_SEED_LENGTH - 1)) continue;
+    const seed = keys.slice(i, i + SEQUENCE_SEED_LENGTH).join(" ");
+    const positions = seeds.get(seed);
+    if (positions) positions.push(i);
+    else seeds.set(seed, [i]);
+  }
+
+  const covered = new Uint8Array(instructions.length);
+  const findings: SizeOptimization[] = [];
+  seeds.forEach(seedPositions => {
+    // Copies can't overlap each other or code already reported
+    const positions: number[] = [];
+    seedPositions.forEach(position => {
+      const previous = positions[positions.length - 1];
+      if (covered[position] || (previous !== undefined && position < previous + SEQUENCE_SEED_LENGTH)) return;
+      positions.push(position);
+    });
+    if (positions.length < 2) return;
+
+    let length = SEQUENCE_SEED_LENGTH;
+    const canExtend = () =>
+      positions.every(
+        (position, index) =>
+          inSameBlock(position, position + length) &&
+          !covered[position + length] &&
+          position + length < (positions[index + 1] ?? Infinity) &&
+          keys[position + length] === keys[positions[0] + length],
+      );
+    while (canExtend()) length++;
+
+    const size = instructions.slice(positions[0], positions[0] + length).reduce((total, i) => total + i.size, 0);
+    if (size < MIN_REPEATED_SEQUENCE_SIZE) return;
+    const savings = (positions.length - 1) * size - positions.length * INTERNAL_CALL_SIZE - INTERNAL_FUNCTION_OVERHEAD;
+    positions.forEach(position => covered.fill(1, position, position + length));
+    findings.push({
+      kind: "repeated-sequence",
+      title: `${size}-byte sequence repeated ${positions.length} times`,
+      suggestion:
+        "Move the duplicated logic (often an inlined modifier or helper) into an internal function or a library " +
+        "so it's deployed once",
+      savings,
+      offsets: positions.map(position => instructions[position].pc),
+    });
+  });
+  return findings;
+};
+
+const countLeadingBytes = (bytes: Uint8Array, value: number) => {
+  const index = bytes.findIndex(byte => byte !== value);
+  return index === -1 ? bytes.length : index;
+};
+
+/**
+ * Savings and rewrite of a PUSH32 constant that a shorter push and a cheap operation can produce
+ */
+const getConstantRewrite = (value: Uint8Array) => {
+  const leadingZeros = countLeadingBytes(value, 0);
+  const trailingZeros = countLeadingBytes(value.slice().reverse(), 0);
+  const leadingOnes = countLeadingBytes(value, 0xff);
+  const rewrites = [
+    // PUSH<32 - n> value
+    { savings: leadingZeros, suggestion: "Push it with a shorter PUSH, its leading bytes are zero" },
+    // PUSH<32 - n> value PUSH1 <8n> SHL
+    { savings: trailingZeros - 3, suggestion: "Push its significant bytes and shift them left with SHL" },
+    // PUSH<32 - n> ~value NOT
+    { savings: leadingOnes - 1, suggestion: "Push its complement with a shorter PUSH and apply NOT" },
+  ];
+  return rewrites.reduce((best, rewrite) => (rewrite.savings > best.savings ? rewrite : best));
+};
+
+const findLargeConstants = (blocks: BasicBlock[]): SizeOptimization[] => {
+  const constants = new Map<Hex, number[]>();
+  blocks.forEach(block =>
+    block.instructions.forEach(instruction => {
+      if (instruction.opcode !== OPCODES.PUSH32 || !instruction.pushData) return;
+      // Revert strings are reported on their own
+      if (isErrorSelectorPush(instruction) || getPushedText(instruction.pushData) !== undefined) return;
+      const value = bytesToHex(instruction.pushData);
+      const offsets = constants.get(value);
+      if (offsets) offsets.push(instruction.pc);
+      else constants.set(value, [instruction.pc]);
+    }),
+  );
+
+  return [...constants.entries()].map(([value, offsets]): SizeOptimization => {
+    const rewrite = getConstantRewrite(hexToBytes(value));
+    // A single internal function pushing the constant: JUMPDEST PUSH32 SWAP1 JUMP
+    const sharingSavings = offsets.length * (PUSH32_SIZE - INTERNAL_CALL_SIZE) - (PUSH32_SIZE + 3);
+    const isSharingBetter = sharingSavings > rewrite.savings * offsets.length;
+    return {
+      kind: "large-constant",
+      title: `PUSH32 ${value}${offsets.length > 1 ? ` (${offsets.length} times)` : ""}`,
+      suggestion: isSharingBetter
+        ? "Return the constant from a single internal function instead of inlining it at every use"
+        : rewrite.suggestion,
+      savings: isSharingBetter ? sharingSavings : rewrite.savings * offsets.length,
+      offsets,
+    };
+  });
+};
+
+const findUnreachableCode = (blocks: BasicBlock[]): SizeOptimization[] => {
+  if (blocks.length === 0) return [];
+  const blocksByStart = new Map(blocks.map(block => [block.start, block]));
+  const nextBlockStart = new Map(blocks.slice(0, -1).map((block, index) => [block.start, blocks[index + 1].start]));
+  const reachable = getReachableBlocks(0, blocksByStart, nextBlockStart, new Set());
+
+  const unreachable = blocks.filter(
+    // A lone INVALID is the compiler's separator before data, not dead code
+    block => !reachable.has(block.start) && !block.instructions.every(i => i.opcode === OPCODES.INVALID),
+  );
+  if (unreachable.length === 0) return [];
+  return [
+    {
+      kind: "unreachable-code",
+      title: `${unreachable.length} unreachable block${unreachable.length === 1 ? "" : "s"}`,
+      suggestion:
+        "No jump or fall-through leads to this code. Unless it's reached through a computed jump, remove the dead " +
+        "source code (e.g. unused internal functions kept by an assembly block) or enable the optimizer",
+      savings: unreachable.reduce((total, block) => total + block.end - block.start, 0),
+      offsets: unreachable.map(block => block.start),
+    },
+  ];
+};
+
+/**
+ * Scans runtime bytecode for concrete size savings: revert strings, repeated code, compressible or repeated
+ * PUSH32 constants and unreachable blocks. Savings are static estimates, ranked from the largest. Findings can
+ * overlap (e.g. a revert string in a repeated revert path), so their savings don't add up.
+ */
+export const findSizeOptimizations = (bytecode: Hex): SizeOptimization[] => {
+  // Data and metadata are excluded so their bytes aren't mistaken for code
+  const { executableSize } = getBytecodeAnatomy(bytecode);
+  const blocks = getBasicBlocks(disassemble(hexToBytes(bytecode).slice(0, executableSize)));
+
+  return [
+    ...findRevertStrings(blocks),
+    ...findRepeatedSequences(blocks),
+    ...findLargeConstants(blocks),
+    ...findUnreachableCode(blocks),
+  ]
+    .filter(finding => finding.savings >= MIN_SAVINGS)
+    .sort((a, b) => b.savings - a.savings);
+};
@@ -0,0 +1,150 @@
+import { CborValue, decodeCbor } from "./cbor";
+import { OPCODES, disassemble, isHalting, isPush, pushDataToNumber } from "./evm";
+import { Hex, bytesToHex, hexToBytes } from "viem";
+
+export type BytecodeMetadata = {
+  compiler: "solc" | "vyper" | "unknown";
+  compilerVersion?: string;
+  // IPFS CIDv0 of the metadata file
+  ipfs?: string;
+  // Swarm hashes of the metadata file (older solc versions)
+  bzzr0?: Hex;
+  bzzr1?: Hex;
+  experimental?: boolean;
+  decoded: CborValue;
+};
+
+export type BytecodeAnatomy = {
+  // Sizes in bytes
+  totalSize: number;
+  executableSize: number;
+  dataSize: number;
+  // CBOR trailer, including its 2 bytes length suffix
+  metadataSize: number;
+  metadata?: BytecodeMetadata;
+};
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+const toBase58 = (bytes: Uint8Array) => {
+  const digits: number[] = [];
+  bytes.forEach(byte => {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  });
+  const leadingZeros = bytes.findIndex(byte => byte !== 0);
+  return (
+    "1".repeat(leadingZeros === -1 ? bytes.length : leadingZeros) +
+    digits
+      .reverse()
+      .map(digit => BASE58_ALPHABET[digit])
+      .join("")
+  );
+};
+
+const formatVersion = (version: CborValue) => {
+  if (version instanceof Uint8Array) return Array.from(version).join(".");
+  if (Array.isArray(version)) return version.join(".");
+  if (typeof version === "string") return version;
+  return undefined;
+};
+
+const parseMetadata = (decoded: CborValue): BytecodeMetadata | undefined => {
+  // Vyper >= 0.3.10 appends an array whose last item holds the compiler version
+  const map = Array.isArray(decoded) ? decoded[decoded.length - 1] : decoded;
+  if (!map || typeof map !== "object" || Array.isArray(map) || map instanceof Uint8Array) return undefined;
+
+  if ("vyper" in map) {
+    return { compiler: "vyper", compilerVersion: formatVersion(map.vyper), decoded };
+  }
+
+  const knownKeys = ["solc", "ipfs", "bzzr0", "bzzr1", "experimental"];
+  if (!Object.keys(map).some(key => knownKeys.includes(key))) return undefined;
+
+  return {
+    compiler: "solc" in map ? "solc" : "unknown",
+    compilerVersion: formatVersion(map.solc),
+    ipfs: map.ipfs instanceof Uint8Array ? toBase58(map.ipfs) : undefined,
+    bzzr0: map.bzzr0 instanceof Uint8Array ? bytesToHex(map.bzzr0) : undefined,
+    bzzr1: map.bzzr1 instanceof Uint8Array ? bytesToHex(map.bzzr1) : undefined,
+    experimental: typeof map.experimental === "boolean" ? map.experimental : undefined,
+    decoded,
+  };
+};
+
+/**
+ * Decodes the compiler metadata trailer: CBOR data followed by its length as 2 big-endian bytes
+ */
+export const decodeMetadataTrailer = (bytes: Uint8Array) => {
+  if (bytes.length < 2) return undefined;
+  const cborLength = (bytes[bytes.length - 2] << 8) | bytes[bytes.length - 1];
+  if (cborLength === 0 || cborLength + 2 > bytes.length) return undefined;
+
+  try {
+    const metadata = parseMetadata(decodeCbor(bytes.slice(bytes.length - 2 - cborLength, bytes.length - 2)));
+    return metadata ? { metadata, size: cborLength + 2 } : undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+/**
+ * Splits runtime bytecode into executable code, data and the compiler metadata trailer.
+ * Compilers append data after an INVALID (or STOP) that can't be reached: one right after a jump or halting
+ * instruction, with no JUMPDEST in between, and past every jump target pushed by the code before it. Data bytes
+ * can look like JUMPDESTs, so they aren't trusted past that marker. Without one, the code ends at the first halting
+ * instruction after the last JUMPDEST.
+ */
+export const getBytecodeAnatomy = (bytecode: Hex): BytecodeAnatomy => {
+  const bytes = hexToBytes(bytecode);
+  const trailer = decodeMetadataTrailer(bytes);
+  const metadataSize = trailer?.size ?? 0;
+  const instructions = disassemble(bytes.slice(0, bytes.length - metadataSize));
+  const jumpdests = new Set(instructions.filter(i => i.opcode === OPCODES.JUMPDEST).map(i => i.pc));
+
+  let isReachable = true;
+  let lastPushedJumpdest = -1;
+  const dataMarker = instructions.find(instruction => {
+    const { opcode } = instruction;
+    if (opcode === OPCODES.JUMPDEST) isReachable = true;
+    if (
+      !isReachable &&
+      (opcode === OPCODES.INVALID || opcode === OPCODES.STOP) &&
+      instruction.pc > lastPushedJumpdest
+    ) {
+      return true;
+    }
+    if (isPush(opcode) && (instruction.pushData?.length ?? 0) <= 4) {
+      const value = pushDataToNumber(instruction.pushData);
+      if (jumpdests.has(value)) lastPushedJumpdest = Math.max(lastPushedJumpdest, value);
+    }
+    if (isHalting(opcode)) isReachable = false;
+    return false;
+  });
+
+  let codeEnd = dataMarker;
+  if (!codeEnd) {
+    let lastJumpdestIndex = -1;
+    instructions.forEach((instruction, index) => {
+      if (instruction.opcode === OPCODES.JUMPDEST) lastJumpdestIndex = index;
+    });
+    codeEnd = instructions.find((instruction, index) => index > lastJumpdestIndex && isHalting(instruction.opcode));
+  }
+  const executableSize = codeEnd ? codeEnd.pc + codeEnd.size : bytes.length - metadataSize;
+
+  return {
+    totalSize: bytes.length,
+    executableSize,
+    dataSize: bytes.length - metadataSize - executableSize,
+    metadataSize,
+    metadata: trailer?.metadata,
+  };
+};
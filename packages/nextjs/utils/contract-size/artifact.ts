@@ -0,0 +1,194 @@
+import { isObject } from "./json";
+import { getBytecodeSize } from "./size";
+import { Hex } from "viem";
+
+export type BuildArtifactFormat = "hardhat" | "foundry" | "solc";
+
+export type BuildArtifactContract = {
+  name: string;
+  sourceName?: string;
+  format: BuildArtifactFormat;
+  // Link placeholders and immutables are filled with stand-in bytes, which keeps the sizes exact
+  runtimeCode: Hex;
+  initcode: Hex;
+  // Sizes in bytes. The initcode doesn't include constructor arguments
+  runtimeSize: number;
+  initcodeSize: number;
+  // Libraries that still have to be linked, as "source:Library" or their raw placeholder
+  unlinkedLibraries: string[];
+  // Number of places the constructor writes immutable values to, undefined when the artifact doesn't say (Hardhat)
+  immutableReferenceCount?: number;
+};
+
+type CodeReference = { start: number; length: number };
+type LinkReferences = Record<string, Record<string, CodeReference[]>>;
+type ImmutableReferences = Record<string, CodeReference[]>;
+
+type ArtifactCode = {
+  object: string;
+  linkReferences?: LinkReferences;
+  immutableReferences?: ImmutableReferences;
+};
+
+// Stand-in for library addresses and immutable values: non-zero like the real values (so they aren't taken for
+// zero constants), and not printable ASCII (so they aren't taken for strings)
+const PLACEHOLDER_BYTE = "ee";
+
+// Library placeholders are as long as an address: `__$<hash>$__` since solc 0.5, `__<name padded with _>` before
+const LINK_PLACEHOLDER_REGEX = /__.{36}__/g;
+
+const getLinkedLibraries = (linkReferences: LinkReferences | undefined) =>
+  Object.entries(linkReferences ?? {}).flatMap(([source, libraries]) =>
+    Object.keys(libraries).map(library => `${source}:${library}`),
+  );
+
+/**
+ * Turns an artifact's code into measurable bytecode, with the libraries it still needs linked
+ */
+const resolveCode = ({ object, linkReferences, immutableReferences }: ArtifactCode) => {
+  const hex = object.startsWith("0x") ? object.slice(2) : object;
+  const placeholders = [...new Set(hex.match(LINK_PLACEHOLDER_REGEX) ?? [])];
+  let code = hex.replace(LINK_PLACEHOLDER_REGEX, PLACEHOLDER_BYTE.repeat(20));
+
+  // Immutables are left as zeros by the compiler and written by the constructor
+  Object.values(immutableReferences ?? {})
+    .flat()
+    .forEach(({ start, length }) => {
+      code = code.slice(0, start * 2) + PLACEHOLDER_BYTE.repeat(length) + code.slice((start + length) * 2);
+    });
+
+  if (!/^([0-9a-fA-F]{2})*$/.test(code)) {
+    throw new Error("The artifact's bytecode isn't valid hex");
+  }
+  return { code: `0x${code}` as Hex, placeholders, libraries: getLinkedLibraries(linkReferences) };
+};
+
+const toContract = (
+  name: string,
+  sourceName: string | undefined,
+  format: BuildArtifactFormat,
+  bytecode: ArtifactCode,
+  deployedBytecode: ArtifactCode,
+): BuildArtifactContract => {
+  const initcode = resolveCode(bytecode);
+  const runtimeCode = resolveCode(deployedBytecode);
+  // Link references name the libraries, without them only the placeholders are known
+  const libraries = [...initcode.libraries, ...runtimeCode.libraries];
+  const unlinkedLibraries = libraries.length > 0 ? libraries : [...initcode.placeholders, ...runtimeCode.placeholders];
+  return {
+    name,
+    sourceName,
+    format,
+    runtimeCode: runtimeCode.code,
+    initcode: initcode.code,
+    runtimeSize: getBytecodeSize(runtimeCode.code),
+    initcodeSize: getBytecodeSize(initcode.code),
+    unlinkedLibraries: [...new Set(unlinkedLibraries)],
+    immutableReferenceCount: deployedBytecode.immutableReferences
+      ? Object.values(deployedBytecode.immutableReferences).flat().length
+      : undefined,
+  };
+};
+
+// Link and immutable references are only checked to be objects, resolveCode reads what it needs from them
+const toLinkReferences = (value: unknown) => (isObject(value) ? (value as LinkReferences) : undefined);
+
+// Bytecode object of a Foundry artifact or a solc output, undefined when it has no code to measure
+const toArtifactCode = (value: unknown): ArtifactCode | undefined =>
+  isObject(value) && typeof value.object === "string"
+    ? {
+        object: value.object,
+        linkReferences: toLinkReferences(value.linkReferences),
+        immutableReferences: isObject(value.immutableReferences)
+          ? (value.immutableReferences as ImmutableReferences)
+          : undefined,
+      }
+    : undefined;
+
+/**
+ * Source and name of the contract a Foundry artifact was compiled for, read from its metadata
+ */
+export const getFoundryCompilationTarget = (json: Record<string, unknown>): [string, string] | undefined => {
+  const settings = isObject(json.metadata) ? json.metadata.settings : undefined;
+  const compilationTarget = isObject(settings) ? settings.compilationTarget : undefined;
+  const [target] = isObject(compilationTarget) ? Object.entries(compilationTarget) : [];
+  return target && typeof target[1] === "string" ? [target[0], target[1]] : undefined;
+};
+
+const parseSolcOutput = ({ contracts, errors }: Record<string, unknown>) => {
+  if (!isObject(contracts)) {
+    const firstError = Array.isArray(errors)
+      ? errors.filter(isObject).find(error => error.severity === "error")
+      : undefined;
+    throw new Error(
+      firstError
+        ? `The compilation failed: ${firstError.formattedMessage ?? firstError.message}`
+        : "No contracts found",
+    );
+  }
+  return Object.entries(contracts).flatMap(([sourceName, byName]) =>
+    Object.entries(isObject(byName) ? byName : {}).flatMap(([name, contract]) => {
+      const evm = isObject(contract) ? contract.evm : undefined;
+      const bytecode = isObject(evm) ? toArtifactCode(evm.bytecode) : undefined;
+      const deployedBytecode = isObject(evm) ? toArtifactCode(evm.deployedBytecode) : undefined;
+      return bytecode && deployedBytecode ? [toContract(name, sourceName, "solc", bytecode, deployedBytecode)] : [];
+    }),
+  );
+};
+
+const parseFoundryArtifact = (json: Record<string, unknown>, fileName: string) => {
+  const bytecode = toArtifactCode(json.bytecode);
+  const deployedBytecode = toArtifactCode(json.deployedBytecode);
+  if (!bytecode || !deployedBytecode) {
+    throw new Error("Invalid Foundry artifact: bytecode and deployedBytecode need a hex object");
+  }
+  // The compilation target is the only place Foundry artifacts name their contract
+  const absolutePath =
+    isObject(json.ast) && typeof json.ast.absolutePath === "string" ? json.ast.absolutePath : undefined;
+  const [sourceName, name] = getFoundryCompilationTarget(json) ?? [absolutePath, fileName.replace(/\.json$/, "")];
+  return [toContract(name, sourceName, "foundry", bytecode, deployedBytecode)];
+};
+
+/**
+ * Reads the contracts of a local build artifact: a Hardhat artifact or build-info file, a Foundry `out/*.json`
+ * artifact or a solc standard JSON output. Interfaces and abstract contracts, which have no code, are left out.
+ */
+export const parseBuildArtifact = (text: string, fileName: string): BuildArtifactContract[] => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    throw new Error("Unrecognized file: expected a JSON build artifact");
+  }
+  if (!isObject(json)) throw new Error("Unrecognized file: expected a JSON build artifact");
+
+  let contracts: BuildArtifactContract[];
+  if (typeof json.bytecode === "string" && typeof json.deployedBytecode === "string") {
+    contracts = [
+      toContract(
+        typeof json.contractName === "string" ? json.contractName : fileName.replace(/\.json$/, ""),
+        typeof json.sourceName === "string" ? json.sourceName : undefined,
+        "hardhat",
+        { object: json.bytecode, linkReferences: toLinkReferences(json.linkReferences) },
+        { object: json.deployedBytecode, linkReferences: toLinkReferences(json.deployedLinkReferences) },
+      ),
+    ];
+  } else if (isObject(json.bytecode) && isObject(json.deployedBytecode)) {
+    contracts = parseFoundryArtifact(json, fileName);
+  } else if (isObject(json.output)) {
+    // Hardhat build-info files wrap the solc input and output
+    contracts = parseSolcOutput(json.output);
+  } else if ("contracts" in json || "errors" in json) {
+    contracts = parseSolcOutput(json);
+  } else {
+    throw new Error(
+      "Unrecognized JSON: expected a Hardhat artifact or build-info, a Foundry artifact or solc standard JSON output",
+    );
+  }
+
+  const deployable = contracts.filter(contract => contract.initcodeSize > 0);
+  if (deployable.length === 0) {
+    throw new Error("No deployable contract: interfaces and abstract contracts have no bytecode");
+  }
+  return deployable;
+};
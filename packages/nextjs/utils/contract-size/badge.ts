@@ -0,0 +1,74 @@
+export type SizeBadgeStyle = "flat" | "for-the-badge";
+
+export const SIZE_BADGE_STYLES: SizeBadgeStyle[] = ["flat", "for-the-badge"];
+
+export type SizeBadgeOptions = {
+  label: string;
+  message: string;
+  // Background of the message half, a gradient when two colors are given
+  color: string | { from: string; to: string };
+  style?: SizeBadgeStyle;
+};
+
+const LABEL_COLOR = "#555";
+const FONT_FAMILY = "Verdana,Geneva,DejaVu Sans,sans-serif";
+
+const BADGE_STYLES: Record<
+  SizeBadgeStyle,
+  { height: number; fontSize: number; padding: number; letterSpacing: number; radius: number }
+> = {
+  flat: { height: 20, fontSize: 11, padding: 6, letterSpacing: 0, radius: 3 },
+  "for-the-badge": { height: 28, fontSize: 10, padding: 12, letterSpacing: 1.25, radius: 0 },
+};
+
+// Rough advance widths (in em) of Verdana, close enough to size the badge without measuring fonts on the server
+const NARROW_CHARS = new Set("ijlI!|.,:;'` ");
+const WIDE_CHARS = new Set("mwMW@%");
+
+const measureText = (text: string, fontSize: number, letterSpacing: number) =>
+  [...text].reduce((width, char) => {
+    const em = NARROW_CHARS.has(char) ? 0.33 : WIDE_CHARS.has(char) ? 0.95 : /[A-Z0-9]/.test(char) ? 0.7 : 0.6;
+    return width + em * fontSize + letterSpacing;
+  }, 0);
+
+const escapeXml = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&${{ "&": "amp", "<": "lt", ">": "gt", '"': "quot", "'": "apos" }[char]};`);
+
+/**
+ * Renders a two-part badge in the shields.io look, e.g. "contract size | 112.4 KB / 128 KB"
+ */
+export const renderSizeBadge = ({ label, message, color, style = "flat" }: SizeBadgeOptions) => {
+  const { height, fontSize, padding, letterSpacing, radius } = BADGE_STYLES[style];
+  const labelText = style === "for-the-badge" ? label.toUpperCase() : label;
+  const messageText = style === "for-the-badge" ? message.toUpperCase() : message;
+
+  const labelWidth = Math.round(measureText(labelText, fontSize, letterSpacing) + padding * 2);
+  const messageWidth = Math.round(measureText(messageText, fontSize, letterSpacing) + padding * 2);
+  const width = labelWidth + messageWidth;
+  const textY = Math.round(height / 2 + fontSize / 3);
+  const fontWeight = style === "for-the-badge" ? "bold" : "normal";
+  const messageFill = typeof color === "string" ? color : "url(#message)";
+
+  const text = (content: string, x: number) =>
+    (style === "flat"
+      ? `<text x="${x}" y="${textY + 1}" fill="#010101" fill-opacity=".3">${escapeXml(content)}</text>`
+      : "") + `<text x="${x}" y="${textY}">${escapeXml(content)}</text>`;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" role="img" aria-label="${escapeXml(`${label}: ${message}`)}">
+<title>${escapeXml(`${label}: ${message}`)}</title>
+<defs>
+${typeof color === "string" ? "" : `<linearGradient id="message" x2="100%"><stop offset="0" stop-color="${color.from}"/><stop offset="1" stop-color="${color.to}"/></linearGradient>`}
+${style === "flat" ? `<linearGradient id="shine" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>` : ""}
+<clipPath id="round"><rect width="${width}" height="${height}" rx="${radius}" fill="#fff"/></clipPath>
+</defs>
+<g clip-path="url(#round)">
+<rect width="${labelWidth}" height="${height}" fill="${LABEL_COLOR}"/>
+<rect x="${labelWidth}" width="${messageWidth}" height="${height}" fill="${messageFill}"/>
+${style === "flat" ? `<rect width="${width}" height="${height}" fill="url(#shine)"/>` : ""}
+</g>
+<g fill="#fff" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="${fontSize}" font-weight="${fontWeight}" letter-spacing="${letterSpacing}">
+${text(labelText, labelWidth / 2)}
+${text(messageText, labelWidth + messageWidth / 2)}
+</g>
+</svg>`;
+};
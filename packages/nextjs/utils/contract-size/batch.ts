@@ -0,0 +1,58 @@
+import { isAddress } from "viem";
+
+export type ParsedAddressList = {
+  addresses: string[];
+  invalid: string[];
+};
+
+/**
+ * Extracts the addresses from a pasted list or an uploaded CSV/TXT file.
+ * Any token starting with 0x is treated as an address candidate, other tokens (headers, labels...) are ignored.
+ */
+export const parseAddressList = (text: string): ParsedAddressList => {
+  const seen = new Set<string>();
+  const addresses: string[] = [];
+  const invalid: string[] = [];
+
+  text
+    .split(/[\s,;"']+/)
+    .filter(token => token.toLowerCase().startsWith("0x"))
+    .forEach(token => {
+      if (!isAddress(token, { strict: false })) {
+        invalid.push(token);
+        return;
+      }
+      if (seen.has(token.toLowerCase())) return;
+      seen.add(token.toLowerCase());
+      addresses.push(token);
+    });
+
+  return { addresses, invalid };
+};
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight, preserving the order of the results.
+ * Items not started yet when `signal` is aborted are skipped and left undefined.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  { onProgress, signal }: { onProgress?: (completed: number, total: number) => void; signal?: AbortSignal } = {},
+): Promise<(R | undefined)[]> => {
+  const results: (R | undefined)[] = new Array(items.length);
+  let nextIndex = 0;
+  let completed = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length && !signal?.aborted) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+      completed++;
+      onProgress?.(completed, items.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, runNext));
+  return results;
+};
@@ -0,0 +1,61 @@
+import { SizeCheckViolation } from "./check";
+
+export const SIZOOR_CONFIG_FILE_NAME = "sizoor.config.json";
+
+export type SizoorConfig = {
+  // Budget of the contracts without their own, in bytes
+  defaultBudget?: number;
+  // Budgets in bytes by contract name, or by "source:Name" to tell apart contracts sharing a name
+  budgets: Record<string, number>;
+};
+
+/**
+ * Reads a size like 20480, "20480", "20KB" or "20.5 KB" in bytes
+ */
+export const parseByteSize = (value: string | number): number | undefined => {
+  if (typeof value === "number") return Number.isFinite(value) && value >= 0 ? Math.round(value) : undefined;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(kb|kib)?$/i);
+  return match ? Math.round(Number(match[1]) * (match[2] ? 1024 : 1)) : undefined;
+};
+
+/**
+ * Validates a `sizoor.config.json`, whose sizes can be given in bytes or with a KB suffix
+ */
+export const parseSizoorConfig = (json: unknown): SizoorConfig => {
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    throw new Error(`${SIZOOR_CONFIG_FILE_NAME} must be a JSON object`);
+  }
+  const { defaultBudget, budgets = {} } = json as { defaultBudget?: unknown; budgets?: unknown };
+
+  const toBytes = (value: unknown, key: string) => {
+    const bytes = typeof value === "string" || typeof value === "number" ? parseByteSize(value) : undefined;
+    if (bytes === undefined) throw new Error(`Invalid size for ${key} in ${SIZOOR_CONFIG_FILE_NAME}: ${value}`);
+    return bytes;
+  };
+
+  if (!budgets || typeof budgets !== "object" || Array.isArray(budgets)) {
+    throw new Error(`budgets in ${SIZOOR_CONFIG_FILE_NAME} must map contract names to sizes`);
+  }
+  return {
+    defaultBudget:
+      defaultBudget !== undefined && defaultBudget !== null ? toBytes(defaultBudget, "defaultBudget") : undefined,
+    budgets: Object.fromEntries(Object.entries(budgets).map(([name, value]) => [name, toBytes(value, name)])),
+  };
+};
+
+/**
+ * Budget of a contract, the most specific of its "source:Name" entry, its name entry and the default
+ */
+export const getContractBudget = (config: SizoorConfig, name: string, sourceName?: string) =>
+  (sourceName !== undefined ? config.budgets[`${sourceName}:${name}`] : undefined) ??
+  config.budgets[name] ??
+  config.defaultBudget;
+
+/**
+ * Whether a size (in bytes) is over a limit or over a budget, the limit taking precedence
+ */
+export const getSizeViolation = (size: number, limit: number, budget?: number): SizeCheckViolation | undefined => {
+  if (size > limit) return "limit";
+  if (budget !== undefined && size > budget) return "budget";
+  return undefined;
+};
@@ -0,0 +1,63 @@
+export type CborValue = number | boolean | null | string | Uint8Array | CborValue[] | { [key: string]: CborValue };
+
+/**
+ * Minimal CBOR (RFC 8949) decoder covering what compilers put in the metadata trailer:
+ * integers, byte/text strings, arrays, maps and simple values. Throws on anything else or on trailing bytes.
+ */
+export const decodeCbor = (bytes: Uint8Array): CborValue => {
+  let offset = 0;
+
+  const readUint = (additionalInfo: number) => {
+    if (additionalInfo < 24) return additionalInfo;
+    const length = { 24: 1, 25: 2, 26: 4 }[additionalInfo];
+    if (!length || offset + length > bytes.length) throw new Error("Unsupported CBOR length");
+    let value = 0;
+    for (let i = 0; i < length; i++) value = value * 256 + bytes[offset++];
+    return value;
+  };
+
+  const readValue = (): CborValue => {
+    if (offset >= bytes.length) throw new Error("Unexpected end of CBOR data");
+    const initialByte = bytes[offset++];
+    const majorType = initialByte >> 5;
+    const additionalInfo = initialByte & 0x1f;
+
+    switch (majorType) {
+      case 0:
+        return readUint(additionalInfo);
+      case 1:
+        return -1 - readUint(additionalInfo);
+      case 2:
+      case 3: {
+        const length = readUint(additionalInfo);
+        if (offset + length > bytes.length) throw new Error("CBOR string out of bounds");
+        const value = bytes.slice(offset, offset + length);
+        offset += length;
+        return majorType === 2 ? value : new TextDecoder().decode(value);
+      }
+      case 4:
+        return Array.from({ length: readUint(additionalInfo) }, readValue);
+      case 5: {
+        const map: { [key: string]: CborValue } = {};
+        const length = readUint(additionalInfo);
+        for (let i = 0; i < length; i++) {
+          const key = readValue();
+          if (typeof key !== "string") throw new Error("Unsupported CBOR map key");
+          map[key] = readValue();
+        }
+        return map;
+      }
+      case 7:
+        if (additionalInfo === 20) return false;
+        if (additionalInfo === 21) return true;
+        if (additionalInfo === 22) return null;
+        throw new Error("Unsupported CBOR simple value");
+      default:
+        throw new Error("Unsupported CBOR type");
+    }
+  };
+
+  const value = readValue();
+  if (offset !== bytes.length) throw new Error("Trailing bytes after CBOR data");
+  return value;
+};
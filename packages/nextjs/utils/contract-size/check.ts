@@ -0,0 +1,77 @@
+import { getSizeViolation } from "./budget";
+import { AddressClassification, classifyAddress, describeAddressClassification } from "./classification";
+import { getContractSizeLimits } from "./limits";
+import { ProxyResolution, describeProxyResolution, resolveProxy } from "./proxy";
+import { ContractSizeData, getBytecodeSize, getContractSizeData } from "./size";
+import { Address, Hex, PublicClient } from "viem";
+import { ContractSizeLimits } from "~~/scaffold.config";
+
+export type ContractSizeCheck = {
+  address: Address;
+  chainId: number;
+  // Block everything was read at
+  blockNumber: bigint;
+  // "0x" when there's no code at the address
+  bytecode: Hex;
+  classification: AddressClassification;
+  limits: ContractSizeLimits;
+  // Undefined when there's no contract code to measure (EOA, delegated EOA, precompile...)
+  sizeData?: ContractSizeData;
+  proxy?: ProxyResolution;
+};
+
+export type SizeCheckViolation = "limit" | "budget";
+
+/**
+ * Reads the code at an address and measures it against the chain's limits, classifying the address and resolving
+ * proxies along the way. Everything is read at one block, the latest unless pinned.
+ */
+export const checkContractSize = async (
+  client: PublicClient,
+  address: Address,
+  { blockNumber, limits }: { blockNumber?: bigint; limits?: ContractSizeLimits } = {},
+): Promise<ContractSizeCheck> => {
+  const [chainId, resolvedBlockNumber] = await Promise.all([
+    client.chain?.id ?? client.getChainId(),
+    blockNumber ?? client.getBlockNumber(),
+  ]);
+  const sizeLimits = limits ?? getContractSizeLimits(chainId);
+
+  const bytecode = (await client.getCode({ address, blockNumber: resolvedBlockNumber })) ?? "0x";
+  const classification = await classifyAddress(client, address, bytecode, resolvedBlockNumber);
+  const result: ContractSizeCheck = {
+    address,
+    chainId,
+    blockNumber: resolvedBlockNumber,
+    bytecode,
+    classification,
+    limits: sizeLimits,
+  };
+  if (bytecode === "0x" || classification.kind === "delegated-eoa") return result;
+
+  result.sizeData = getContractSizeData(bytecode, sizeLimits);
+  // Proxy detection is best effort, a failure shouldn't hide the size result
+  try {
+    result.proxy = await resolveProxy(client, address, bytecode, resolvedBlockNumber);
+  } catch (e) {
+    console.error("Failed to resolve proxy implementation", e);
+  }
+  return result;
+};
+
+/**
+ * Whether a checked contract is over the chain's limit or over a size budget (in bytes), the limit taking precedence
+ */
+export const getSizeCheckViolation = (check: ContractSizeCheck, budget?: number): SizeCheckViolation | undefined => {
+  if (!check.sizeData) return undefined;
+  return getSizeViolation(getBytecodeSize(check.bytecode), check.limits.runtimeCodeLimit, budget);
+};
+
+/**
+ * One-line note on what a checked address is when it isn't a plain contract (a proxy, an EOA, a precompile...),
+ * for tables with no room for the full results
+ */
+export const describeSizeCheck = ({ classification, proxy }: ContractSizeCheck) => {
+  if (proxy) return describeProxyResolution(proxy);
+  return classification.kind === "contract" ? undefined : describeAddressClassification(classification);
+};
@@ -0,0 +1,101 @@
+import { Address, Hex, PublicClient, getAddress } from "viem";
+
+export type AddressClassification =
+  | { kind: "contract" }
+  | { kind: "eoa"; nonce: number; balance: bigint }
+  | { kind: "delegated-eoa"; delegate: Address; nonce: number; balance: bigint }
+  | { kind: "precompile"; name: string }
+  | { kind: "system"; name: string }
+  | { kind: "empty" };
+
+// EIP-7702 delegation designator: 0xef0100 followed by the delegate address
+const DELEGATION_DESIGNATOR_PATTERN = /^0xef0100([0-9a-f]{40})$/i;
+
+export const PRECOMPILES: Record<number, string> = {
+  0x01: "ecRecover",
+  0x02: "SHA2-256",
+  0x03: "RIPEMD-160",
+  0x04: "identity",
+  0x05: "modexp",
+  0x06: "ecAdd (alt_bn128)",
+  0x07: "ecMul (alt_bn128)",
+  0x08: "ecPairing (alt_bn128)",
+  0x09: "blake2f",
+  0x0a: "KZG point evaluation",
+  0x0b: "BLS12-381 G1 add",
+  0x0c: "BLS12-381 G1 MSM",
+  0x0d: "BLS12-381 G2 add",
+  0x0e: "BLS12-381 G2 MSM",
+  0x0f: "BLS12-381 pairing check",
+  0x10: "BLS12-381 map fp to G1",
+  0x11: "BLS12-381 map fp2 to G2",
+  0x100: "P256VERIFY (RIP-7212)",
+};
+
+export const SYSTEM_ADDRESSES: Record<string, string> = {
+  "0xfffffffffffffffffffffffffffffffffffffffe": "System address (EIP-4788)",
+  "0x000f3df6d732807ef1319fb7b8bb8522d0beac02": "Beacon roots contract (EIP-4788)",
+  "0x0000f90827f1c53a10cb7a02335b175320002935": "Block hash history contract (EIP-2935)",
+  "0x00000961ef480eb55e80d19ad83579a64c007002": "Withdrawal requests contract (EIP-7002)",
+  "0x0000bbddc7ce488642fb579f8b00f3a590007251": "Consolidation requests contract (EIP-7251)",
+  "0x00000000219ab540356cbb839cbe05303d7705fa": "Beacon chain deposit contract",
+  "0x4e59b44847b379578588920ca78fbf26c0b4956c": "Deterministic deployment proxy (CREATE2 factory)",
+};
+
+/**
+ * Returns the delegate of an EIP-7702 delegated EOA, from its delegation designator code
+ */
+export const getDelegationTarget = (bytecode: Hex | undefined) => {
+  const match = bytecode?.match(DELEGATION_DESIGNATOR_PATTERN);
+  return match ? getAddress(`0x${match[1]}`) : undefined;
+};
+
+/**
+ * Tells what kind of account lives at an address, so an address without regular contract code can be explained.
+ * Pass `blockNumber` to classify the account as it was at that block.
+ */
+export const classifyAddress = async (
+  client: PublicClient,
+  address: Address,
+  bytecode: Hex | undefined,
+  blockNumber?: bigint,
+): Promise<AddressClassification> => {
+  const systemName = SYSTEM_ADDRESSES[address.toLowerCase()];
+  if (systemName) return { kind: "system", name: systemName };
+
+  const hasCode = !!bytecode && bytecode !== "0x";
+  const delegate = getDelegationTarget(bytecode);
+  if (hasCode && !delegate) return { kind: "contract" };
+
+  const precompileName = BigInt(address) <= 0xffffn ? PRECOMPILES[Number(BigInt(address))] : undefined;
+  if (!hasCode && precompileName) return { kind: "precompile", name: precompileName };
+
+  const [nonce, balance] = await Promise.all([
+    client.getTransactionCount({ address, blockNumber }),
+    client.getBalance({ address, blockNumber }),
+  ]);
+
+  if (delegate) return { kind: "delegated-eoa", delegate, nonce, balance };
+  if (nonce > 0 || balance > 0n) return { kind: "eoa", nonce, balance };
+  return { kind: "empty" };
+};
+
+/**
+ * One-line explanation of an address, for tables where there's no room for the full classification result
+ */
+export const describeAddressClassification = (classification: AddressClassification) => {
+  switch (classification.kind) {
+    case "contract":
+      return "Contract";
+    case "eoa":
+      return "Externally owned account (EOA), not a contract";
+    case "delegated-eoa":
+      return `EIP-7702 delegated EOA, check the delegate target ${classification.delegate}`;
+    case "precompile":
+      return `${classification.name} precompile, it has no bytecode to measure`;
+    case "system":
+      return classification.name;
+    case "empty":
+      return "No contract found at this address";
+  }
+};
@@ -0,0 +1,51 @@
+import { Hex, hexToBytes } from "viem";
+
+// Gas schedule of a contract creation transaction, as of EIP-3860
+export const TX_BASE_GAS = 21_000;
+export const CREATE_GAS = 32_000;
+export const CALLDATA_ZERO_BYTE_GAS = 4;
+export const CALLDATA_NONZERO_BYTE_GAS = 16;
+export const INITCODE_WORD_GAS = 2;
+export const CODE_DEPOSIT_GAS_PER_BYTE = 200;
+
+export type DeploymentGasEstimate = {
+  // Transaction and contract creation base costs
+  baseGas: number;
+  // Initcode sent as calldata
+  calldataGas: number;
+  // EIP-3860 initcode metering
+  initcodeWordGas: number;
+  // Storing the runtime code
+  codeDepositGas: number;
+  totalGas: number;
+};
+
+/**
+ * Share of non-zero bytes in the bytecode, which calldata pricing depends on
+ */
+export const getNonZeroByteRatio = (bytecode: Hex) => {
+  const bytes = hexToBytes(bytecode);
+  return bytes.length === 0 ? 1 : bytes.filter(byte => byte !== 0).length / bytes.length;
+};
+
+/**
+ * Estimates the gas of deploying runtime code with a creation transaction. The constructor's own execution isn't
+ * included, and without a known initcode size the initcode is assumed to be the runtime code alone.
+ */
+export const estimateDeploymentGas = (
+  runtimeSize: number,
+  { initcodeSize = runtimeSize, nonZeroByteRatio = 1 }: { initcodeSize?: number; nonZeroByteRatio?: number } = {},
+): DeploymentGasEstimate => {
+  const nonZeroBytes = Math.round(initcodeSize * nonZeroByteRatio);
+  const baseGas = TX_BASE_GAS + CREATE_GAS;
+  const calldataGas = nonZeroBytes * CALLDATA_NONZERO_BYTE_GAS + (initcodeSize - nonZeroBytes) * CALLDATA_ZERO_BYTE_GAS;
+  const initcodeWordGas = Math.ceil(initcodeSize / 32) * INITCODE_WORD_GAS;
+  const codeDepositGas = runtimeSize * CODE_DEPOSIT_GAS_PER_BYTE;
+  return {
+    baseGas,
+    calldataGas,
+    initcodeWordGas,
+    codeDepositGas,
+    totalGas: baseGas + calldataGas + initcodeWordGas + codeDepositGas,
+  };
+};
@@ -0,0 +1,318 @@
+import { isObject } from "./json";
+import { getBytecodeSize } from "./size";
+import { Address, Hash, Hex, PublicClient, isAddressEqual, numberToHex } from "viem";
+
+export type ContractCreation = {
+  address: Address;
+  initcode: Hex;
+  // Runtime code returned by the constructor, when known from a trace
+  runtimeCode?: Hex;
+  // Contract that issued the CREATE/CREATE2, undefined for direct deployments
+  factory?: Address;
+  opcode: "CREATE" | "CREATE2" | "TX";
+};
+
+export type CreationLookup = {
+  creations: ContractCreation[];
+  // How the creations were found
+  source: "receipt" | "callTracer" | "trace_transaction";
+};
+
+type CallFrame = {
+  type: string;
+  from: Address;
+  to?: Address;
+  input: Hex;
+  output?: Hex;
+  error?: string;
+  calls?: CallFrame[];
+};
+
+type ParityTrace = {
+  type: string;
+  transactionHash?: Hash;
+  // Path of the call in its transaction's call tree
+  traceAddress: number[];
+  action: { from: Address; init?: Hex; creationMethod?: string };
+  result?: { address: Address; code: Hex } | null;
+  error?: string;
+};
+
+type CallTracerOptions = { tracer: "callTracer" };
+
+// Errors of nodes that don't expose a tracing method, as opposed to a failed call of one they do
+const UNSUPPORTED_METHOD_CODES = [-32601, -32004];
+const UNSUPPORTED_METHOD_ERRORS =
+  /method .*(not found|not supported|not available|does not exist|not whitelisted|not allowed|not enabled)|unsupported method/i;
+
+const isUnsupportedMethodError = (err: unknown): boolean => {
+  if (!isObject(err)) return false;
+  const { code, details, shortMessage, message, cause } = err;
+  return (
+    (typeof code === "number" && UNSUPPORTED_METHOD_CODES.includes(code)) ||
+    UNSUPPORTED_METHOD_ERRORS.test(
+      [details, shortMessage, message].filter(text => typeof text === "string").join(" "),
+    ) ||
+    isUnsupportedMethodError(cause)
+  );
+};
+
+// Contracts created in a frame that reverted, or under one, were rolled back
+const collectCallFrameCreations = (frame: CallFrame, creations: ContractCreation[], isReverted = false) => {
+  const isFrameReverted = isReverted || Boolean(frame.error);
+  if ((frame.type === "CREATE" || frame.type === "CREATE2") && frame.to && !isFrameReverted) {
+    creations.push({
+      address: frame.to,
+      initcode: frame.input,
+      runtimeCode: frame.output,
+      factory: frame.from,
+      opcode: frame.type,
+    });
+  }
+  frame.calls?.forEach(call => collectCallFrameCreations(call, creations, isFrameReverted));
+};
+
+const traceWithCallTracer = async (client: PublicClient, hash: Hash) => {
+  const trace = await client.request<{
+    Method: "debug_traceTransaction";
+    Parameters: [Hash, CallTracerOptions];
+    ReturnType: CallFrame;
+  }>({
+    method: "debug_traceTransaction",
+    params: [hash, { tracer: "callTracer" }],
+  });
+  const creations: ContractCreation[] = [];
+  collectCallFrameCreations(trace, creations);
+  return creations;
+};
+
+// Parity traces only flag the call that reverted, not the calls under it
+const isUnderRevertedTrace = (trace: ParityTrace, traces: ParityTrace[]) =>
+  traces.some(
+    other =>
+      other.error &&
+      other.transactionHash === trace.transactionHash &&
+      other.traceAddress.length < trace.traceAddress.length &&
+      other.traceAddress.every((index, depth) => trace.traceAddress[depth] === index),
+  );
+
+const getParityCreations = (traces: ParityTrace[]) =>
+  traces.flatMap((trace): (ContractCreation & { transactionHash?: Hash })[] =>
+    trace.type === "create" && trace.result && !trace.error && trace.action.init && !isUnderRevertedTrace(trace, traces)
+      ? [
+          {
+            address: trace.result.address,
+            initcode: trace.action.init,
+            runtimeCode: trace.result.code,
+            factory: trace.action.from,
+            opcode: trace.action.creationMethod === "create2" ? "CREATE2" : "CREATE",
+            transactionHash: trace.transactionHash,
+          },
+        ]
+      : [],
+  );
+
+const traceWithParity = async (client: PublicClient, hash: Hash) =>
+  getParityCreations(
+    await client.request<{ Method: "trace_transaction"; Parameters: [Hash]; ReturnType: ParityTrace[] }>({
+      method: "trace_transaction",
+      params: [hash],
+    }),
+  );
+
+/**
+ * Finds the contracts created by a transaction along with their initcode.
+ * Traces (`debug_traceTransaction`, then `trace_transaction`) find every creation, including the ones made by a
+ * factory or by a deployed contract's constructor. Without them only direct deployments are found, from the
+ * transaction and its receipt.
+ */
+export const findContractCreations = async (client: PublicClient, hash: Hash): Promise<CreationLookup> => {
+  const [transaction, receipt] = await Promise.all([
+    client.getTransaction({ hash }),
+    client.getTransactionReceipt({ hash }),
+  ]);
+
+  if (receipt.status === "reverted") {
+    throw new Error("This transaction reverted, no contract was created");
+  }
+
+  const deployedAddress = !transaction.to ? receipt.contractAddress : undefined;
+  // Traces report the deployment itself as a CREATE issued by the sender
+  const asDirectDeployment = (creation: ContractCreation): ContractCreation =>
+    deployedAddress && isAddressEqual(creation.address, deployedAddress)
+      ? { address: creation.address, initcode: transaction.input, runtimeCode: creation.runtimeCode, opcode: "TX" }
+      : creation;
+
+  let lookup: CreationLookup | undefined;
+  for (const [source, trace] of [
+    ["callTracer", traceWithCallTracer],
+    ["trace_transaction", traceWithParity],
+  ] as const) {
+    try {
+      const creations = await trace(client, hash);
+      lookup = { source, creations: creations.map(asDirectDeployment) };
+      break;
+    } catch (err) {
+      // This tracer isn't supported by the node, try the next one. A direct deployment is still known from its
+      // receipt when tracing fails otherwise (e.g. a node without the historical state to replay it)
+      if (!deployedAddress && !isUnsupportedMethodError(err)) throw err;
+    }
+  }
+
+  if (!lookup && deployedAddress) {
+    return {
+      source: "receipt",
+      creations: [{ address: deployedAddress, initcode: transaction.input, opcode: "TX" }],
+    };
+  }
+  if (!lookup) {
+    throw new Error(
+      "This transaction didn't deploy a contract directly, and the node doesn't support traces to find factory deployments",
+    );
+  }
+  if (lookup.creations.length === 0) {
+    throw new Error("This transaction didn't create any contract");
+  }
+  return lookup;
+};
+
+export type CreationSize = {
+  address: Address;
+  factory?: Address;
+  opcode: ContractCreation["opcode"];
+  // Sizes in bytes
+  initcodeSize: number;
+  runtimeSize?: number;
+  runtimeCode?: Hex;
+};
+
+/**
+ * Measures the initcode and the runtime code of each creation. The runtime code is read from the chain and
+ * falls back to the trace output when the contract is gone (e.g. self-destructed).
+ */
+export const measureContractCreations = (client: PublicClient, creations: ContractCreation[]) =>
+  Promise.all(
+    creations.map(async (creation): Promise<CreationSize> => {
+      const deployedCode = await client.getCode({ address: creation.address });
+      const runtimeCode = deployedCode && deployedCode !== "0x" ? deployedCode : creation.runtimeCode;
+
+      return {
+        address: creation.address,
+        factory: creation.factory,
+        opcode: creation.opcode,
+        initcodeSize: getBytecodeSize(creation.initcode),
+        runtimeSize: runtimeCode ? getBytecodeSize(runtimeCode) : undefined,
+        runtimeCode,
+      };
+    }),
+  );
+
+export type BlockContractCreation = ContractCreation & {
+  transactionHash: Hash;
+  // Account that sent the deploying transaction
+  deployer: Address;
+};
+
+export type BlockCreationLookup = {
+  creations: BlockContractCreation[];
+  source: "receipt" | "callTracer" | "trace_block";
+};
+
+const traceBlockWithCallTracer = async (client: PublicClient, blockNumber: bigint) => {
+  const traces = await client.request<{
+    Method: "debug_traceBlockByNumber";
+    Parameters: [Hex, CallTracerOptions];
+    ReturnType: { txHash?: Hash; result: CallFrame }[];
+  }>({
+    method: "debug_traceBlockByNumber",
+    params: [numberToHex(blockNumber), { tracer: "callTracer" }],
+  });
+  return traces.map(trace => {
+    const creations: ContractCreation[] = [];
+    collectCallFrameCreations(trace.result, creations);
+    return { transactionHash: trace.txHash, creations };
+  });
+};
+
+const traceBlockWithParity = async (client: PublicClient, blockNumber: bigint) =>
+  getParityCreations(
+    await client.request<{ Method: "trace_block"; Parameters: [Hex]; ReturnType: ParityTrace[] }>({
+      method: "trace_block",
+      params: [numberToHex(blockNumber)],
+    }),
+  );
+
+/**
+ * Finds the contracts created in a block. Traces (`trace_block`, then `debug_traceBlockByNumber`) also find
+ * factory deployments; without them only direct deployments are found, from the receipts' `contractAddress`.
+ * Pass the `source` of a previous lookup to skip tracers the node doesn't support: errors of a tracer known to work
+ * are then thrown rather than falling back, which would silently miss factory deployments from then on.
+ */
+export const findBlockContractCreations = async (
+  client: PublicClient,
+  blockNumber: bigint,
+  source?: BlockCreationLookup["source"],
+): Promise<BlockCreationLookup & { timestamp: bigint }> => {
+  const block = await client.getBlock({ blockNumber, includeTransactions: true });
+  const senders = new Map(block.transactions.map(transaction => [transaction.hash, transaction.from]));
+  const withDeployer = (creation: ContractCreation, transactionHash: Hash | undefined) => {
+    const deployer = transactionHash && senders.get(transactionHash);
+    return transactionHash && deployer ? [{ ...creation, transactionHash, deployer }] : [];
+  };
+
+  if (!source || source === "trace_block") {
+    try {
+      const creations = await traceBlockWithParity(client, blockNumber);
+      return {
+        source: "trace_block",
+        timestamp: block.timestamp,
+        creations: creations.flatMap(creation => withDeployer(creation, creation.transactionHash)),
+      };
+    } catch (err) {
+      // trace_block isn't supported by the node, try the next one
+      if (source || !isUnsupportedMethodError(err)) throw err;
+    }
+  }
+
+  if (!source || source === "callTracer") {
+    try {
+      const traces = await traceBlockWithCallTracer(client, blockNumber);
+      return {
+        source: "callTracer",
+        timestamp: block.timestamp,
+        // Older nodes don't return the transaction hash, traces are in the block's transaction order
+        creations: traces.flatMap((trace, index) =>
+          trace.creations.flatMap(creation =>
+            withDeployer(creation, trace.transactionHash ?? block.transactions[index]?.hash),
+          ),
+        ),
+      };
+    } catch (err) {
+      // debug_traceBlockByNumber isn't supported by the node, fall back to receipts
+      if (source || !isUnsupportedMethodError(err)) throw err;
+    }
+  }
+
+  const deployments = block.transactions.filter(transaction => !transaction.to);
+  const receipts = await Promise.all(
+    deployments.map(transaction => client.getTransactionReceipt({ hash: transaction.hash })),
+  );
+  return {
+    source: "receipt",
+    timestamp: block.timestamp,
+    creations: deployments.flatMap((transaction, index) => {
+      const { contractAddress, status } = receipts[index];
+      return contractAddress && status === "success"
+        ? [
+            {
+              address: contractAddress,
+              initcode: transaction.input,
+              opcode: "TX" as const,
+              transactionHash: transaction.hash,
+              deployer: transaction.from,
+            },
+          ]
+        : [];
+    }),
+  };
+};
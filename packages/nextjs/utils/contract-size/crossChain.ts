@@ -0,0 +1,32 @@
+import scaffoldConfig from "~~/scaffold.config";
+
+export type CustomChain = {
+  id: number;
+  name: string;
+  rpcUrl: string;
+};
+
+export type CrossChainStatus = "match" | "differs" | "missing" | "error";
+
+/**
+ * Returns the code hash shared by most chains, used as the reference to flag chains whose code differs.
+ * Ties are broken by the order of the chains.
+ */
+export const getReferenceCodeHash = (codeHashes: (string | undefined)[]) => {
+  const counts = new Map<string, number>();
+  codeHashes.forEach(codeHash => {
+    if (codeHash) counts.set(codeHash, (counts.get(codeHash) ?? 0) + 1);
+  });
+
+  let reference: string | undefined;
+  counts.forEach((count, codeHash) => {
+    if (reference === undefined || count > (counts.get(reference) ?? 0)) reference = codeHash;
+  });
+  return reference;
+};
+
+/**
+ * Name of a chain from the configured target networks, or a generic one for other chains
+ */
+export const getChainName = (chainId: number) =>
+  scaffoldConfig.targetNetworks.find(network => network.id === chainId)?.name ?? `Chain ${chainId}`;
@@ -0,0 +1,67 @@
+const DB_NAME = "sizoor";
+const DB_VERSION = 2;
+
+export const DEPLOYMENTS_STORE = "deployments";
+export const SCAN_STATE_STORE = "scanState";
+export const HISTORY_STORE = "history";
+
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+export const idbRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+
+/**
+ * Opens the app's IndexedDB database, creating or upgrading its object stores when needed
+ */
+export const openSizoorDb = () => {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB isn't available in this environment"));
+  }
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(DEPLOYMENTS_STORE)) {
+        const deployments = db.createObjectStore(DEPLOYMENTS_STORE, { keyPath: ["chainId", "address"] });
+        deployments.createIndex("chainId", "chainId");
+      }
+      if (!db.objectStoreNames.contains(SCAN_STATE_STORE)) {
+        db.createObjectStore(SCAN_STATE_STORE, { keyPath: "chainId" });
+      }
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        db.createObjectStore(HISTORY_STORE, { keyPath: "id" });
+      }
+    };
+    dbPromise = idbRequest(request).catch(e => {
+      dbPromise = undefined;
+      throw e;
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs `operation` in a transaction over `storeName` and resolves once the transaction is committed
+ */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => Promise<T> | T,
+) => {
+  const db = await openSizoorDb();
+  const transaction = db.transaction(storeName, mode);
+  const committed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const result = await operation(transaction.objectStore(storeName));
+  await committed;
+  return result;
+};
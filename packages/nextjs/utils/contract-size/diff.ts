@@ -0,0 +1,261 @@
+import { getBytecodeAnatomy } from "./anatomy";
+import { Instruction, OPCODES, disassemble, formatInstruction, isPush, pushDataToNumber } from "./evm";
+import { BasicBlock, analyzeFunctionSizes, getBasicBlocks } from "./functions";
+import { Hex, bytesToHex, hexToBytes } from "viem";
+
+export type DiffLine = {
+  kind: "equal" | "removed" | "added";
+  before?: Instruction;
+  after?: Instruction;
+};
+
+export type DiffHunk =
+  // A run of identical basic blocks, collapsed in the UI
+  { kind: "equal"; blockCount: number; size: number } | { kind: "changed"; lines: DiffLine[] };
+
+export type SectionDelta = {
+  section: "code" | "data" | "metadata" | "total";
+  // Sizes in bytes
+  before: number;
+  after: number;
+  changed: boolean;
+};
+
+export type FunctionDelta = {
+  selector: Hex;
+  // Reachable sizes in bytes, undefined when the selector doesn't exist on that side
+  before?: number;
+  after?: number;
+};
+
+export type BytecodeDiff = {
+  hunks: DiffHunk[];
+  sections: SectionDelta[];
+  functions: FunctionDelta[];
+  // True when nothing but ignored sections differ
+  identical: boolean;
+};
+
+export type EditOperation = "equal" | "delete" | "insert";
+
+// Past this many edits the sequences are considered unrelated, which bounds the diff's memory use
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Myers' diff of two sequences of comparable keys. Returns the edit script from `a` to `b`,
+ * or undefined when more than MAX_EDIT_DISTANCE edits are needed.
+ */
+export const diffSequences = (a: string[], b: string[]): EditOperation[] | undefined => {
+  const n = a.length;
+  const m = b.length;
+  const maxDistance = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = maxDistance + 1;
+  const v = new Int32Array(2 * offset + 1);
+  // trace[d] holds the furthest x of every diagonal k in [-d + 1, d - 1], as it was before step d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= maxDistance; d++) {
+    trace.push(v.slice(offset - d + 1, offset + d));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, n, m);
+    }
+  }
+  return undefined;
+};
+
+const backtrack = (trace: Int32Array[], n: number, m: number) => {
+  const operations: EditOperation[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d - 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+    while (x > previousX && y > previousY) {
+      operations.push("equal");
+      x--;
+      y--;
+    }
+    operations.push(x === previousX ? "insert" : "delete");
+    x = previousX;
+    y = previousY;
+  }
+  for (; x > 0; x--) operations.push("equal");
+  return operations.reverse();
+};
+
+/**
+ * Comparison key of an instruction. Pushed jump destinations are replaced by a placeholder,
+ * so code that only moved doesn't show up as changed.
+ */
+const getInstructionKey = (instruction: Instruction, jumpdests: Set<number>) => {
+  if (!isPush(instruction.opcode) || !instruction.pushData) return instruction.name;
+  if (instruction.pushData.length <= 4 && jumpdests.has(pushDataToNumber(instruction.pushData))) {
+    return `${instruction.name} @jumpdest`;
+  }
+  return formatInstruction(instruction);
+};
+
+const diffInstructions = (
+  before: Instruction[],
+  after: Instruction[],
+  beforeKey: (instruction: Instruction) => string,
+  afterKey: (instruction: Instruction) => string,
+) => {
+  const operations = diffSequences(before.map(beforeKey), after.map(afterKey));
+  if (!operations) {
+    return [
+      ...before.map((instruction): DiffLine => ({ kind: "removed", before: instruction })),
+      ...after.map((instruction): DiffLine => ({ kind: "added", after: instruction })),
+    ];
+  }
+  let i = 0;
+  let j = 0;
+  return operations.map((operation): DiffLine => {
+    if (operation === "equal") return { kind: "equal", before: before[i++], after: after[j++] };
+    if (operation === "delete") return { kind: "removed", before: before[i++] };
+    return { kind: "added", after: after[j++] };
+  });
+};
+
+type CodeParts = {
+  blocks: BasicBlock[];
+  jumpdests: Set<number>;
+  data: Hex;
+  metadata: Hex;
+  executableSize: number;
+};
+
+const splitBytecode = (bytecode: Hex): CodeParts => {
+  const bytes = hexToBytes(bytecode);
+  const { executableSize, metadataSize } = getBytecodeAnatomy(bytecode);
+  const instructions = disassemble(bytes.slice(0, executableSize));
+  return {
+    blocks: getBasicBlocks(instructions),
+    jumpdests: new Set(instructions.filter(i => i.opcode === OPCODES.JUMPDEST).map(i => i.pc)),
+    data: bytesToHex(bytes.slice(executableSize, bytes.length - metadataSize)),
+    metadata: bytesToHex(bytes.slice(bytes.length - metadataSize)),
+    executableSize,
+  };
+};
+
+const getFunctionDeltas = (before: Hex, after: Hex) => {
+  const deltas = new Map<Hex, FunctionDelta>();
+  analyzeFunctionSizes(before).functions.forEach(fn =>
+    deltas.set(fn.selector, { selector: fn.selector, before: fn.reachableSize }),
+  );
+  analyzeFunctionSizes(after).functions.forEach(fn =>
+    deltas.set(fn.selector, { selector: fn.selector, ...deltas.get(fn.selector), after: fn.reachableSize }),
+  );
+  return [...deltas.values()];
+};
+
+/**
+ * Diffs two runtime bytecodes. The executable code is aligned on basic blocks first, then changed regions are
+ * diffed opcode by opcode. Data and the CBOR metadata trailer are compared as a whole, and the metadata can be
+ * ignored since it changes with any source or compiler setting change.
+ */
+export const diffBytecode = (
+  before: Hex,
+  after: Hex,
+  { ignoreMetadata }: { ignoreMetadata: boolean },
+): BytecodeDiff => {
+  const beforeParts = splitBytecode(before);
+  const afterParts = splitBytecode(after);
+  const beforeKey = (instruction: Instruction) => getInstructionKey(instruction, beforeParts.jumpdests);
+  const afterKey = (instruction: Instruction) => getInstructionKey(instruction, afterParts.jumpdests);
+  const blockKey = (block: BasicBlock, key: (instruction: Instruction) => string) =>
+    block.instructions.map(key).join(" ");
+
+  const blockOperations = diffSequences(
+    beforeParts.blocks.map(block => blockKey(block, beforeKey)),
+    afterParts.blocks.map(block => blockKey(block, afterKey)),
+  ) ?? [
+    ...beforeParts.blocks.map((): EditOperation => "delete"),
+    ...afterParts.blocks.map((): EditOperation => "insert"),
+  ];
+
+  const hunks: DiffHunk[] = [];
+  let removedBlocks: BasicBlock[] = [];
+  let addedBlocks: BasicBlock[] = [];
+  const flushChanges = () => {
+    if (removedBlocks.length === 0 && addedBlocks.length === 0) return;
+    hunks.push({
+      kind: "changed",
+      lines: diffInstructions(
+        removedBlocks.flatMap(block => block.instructions),
+        addedBlocks.flatMap(block => block.instructions),
+        beforeKey,
+        afterKey,
+      ),
+    });
+    removedBlocks = [];
+    addedBlocks = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  blockOperations.forEach(operation => {
+    if (operation === "delete") {
+      removedBlocks.push(beforeParts.blocks[i++]);
+      return;
+    }
+    if (operation === "insert") {
+      addedBlocks.push(afterParts.blocks[j++]);
+      return;
+    }
+    flushChanges();
+    const block = beforeParts.blocks[i++];
+    j++;
+    const last = hunks[hunks.length - 1];
+    if (last?.kind === "equal") {
+      last.blockCount++;
+      last.size += block.end - block.start;
+    } else {
+      hunks.push({ kind: "equal", blockCount: 1, size: block.end - block.start });
+    }
+  });
+  flushChanges();
+
+  const section = (name: SectionDelta["section"], beforeValue: Hex, afterValue: Hex): SectionDelta => ({
+    section: name,
+    before: (beforeValue.length - 2) / 2,
+    after: (afterValue.length - 2) / 2,
+    changed: beforeValue !== afterValue,
+  });
+  const codeChanged = hunks.some(hunk => hunk.kind === "changed");
+  const sections: SectionDelta[] = [
+    {
+      section: "code",
+      before: beforeParts.executableSize,
+      after: afterParts.executableSize,
+      changed: codeChanged,
+    },
+    section("data", beforeParts.data, afterParts.data),
+    ...(ignoreMetadata ? [] : [section("metadata", beforeParts.metadata, afterParts.metadata)]),
+  ];
+  sections.push({
+    section: "total",
+    before: sections.reduce((total, delta) => total + delta.before, 0),
+    after: sections.reduce((total, delta) => total + delta.after, 0),
+    changed: sections.some(delta => delta.changed),
+  });
+
+  return {
+    hunks,
+    sections,
+    functions: getFunctionDeltas(before, after),
+    identical: !sections.some(delta => delta.changed),
+  };
+};
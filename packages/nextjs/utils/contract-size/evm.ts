@@ -0,0 +1,177 @@
+import { Hex, bytesToHex, hexToBytes } from "viem";
+
+export type Instruction = {
+  // Byte offset of the opcode in the bytecode
+  pc: number;
+  opcode: number;
+  name: string;
+  // Immediate bytes of PUSH1-PUSH32
+  pushData?: Uint8Array;
+  // Total size in bytes, opcode included
+  size: number;
+};
+
+const OPCODE_NAMES: Record<number, string> = {
+  0x00: "STOP",
+  0x01: "ADD",
+  0x02: "MUL",
+  0x03: "SUB",
+  0x04: "DIV",
+  0x05: "SDIV",
+  0x06: "MOD",
+  0x07: "SMOD",
+  0x08: "ADDMOD",
+  0x09: "MULMOD",
+  0x0a: "EXP",
+  0x0b: "SIGNEXTEND",
+  0x10: "LT",
+  0x11: "GT",
+  0x12: "SLT",
+  0x13: "SGT",
+  0x14: "EQ",
+  0x15: "ISZERO",
+  0x16: "AND",
+  0x17: "OR",
+  0x18: "XOR",
+  0x19: "NOT",
+  0x1a: "BYTE",
+  0x1b: "SHL",
+  0x1c: "SHR",
+  0x1d: "SAR",
+  0x20: "KECCAK256",
+  0x30: "ADDRESS",
+  0x31: "BALANCE",
+  0x32: "ORIGIN",
+  0x33: "CALLER",
+  0x34: "CALLVALUE",
+  0x35: "CALLDATALOAD",
+  0x36: "CALLDATASIZE",
+  0x37: "CALLDATACOPY",
+  0x38: "CODESIZE",
+  0x39: "CODECOPY",
+  0x3a: "GASPRICE",
+  0x3b: "EXTCODESIZE",
+  0x3c: "EXTCODECOPY",
+  0x3d: "RETURNDATASIZE",
+  0x3e: "RETURNDATACOPY",
+  0x3f: "EXTCODEHASH",
+  0x40: "BLOCKHASH",
+  0x41: "COINBASE",
+  0x42: "TIMESTAMP",
+  0x43: "NUMBER",
+  0x44: "PREVRANDAO",
+  0x45: "GASLIMIT",
+  0x46: "CHAINID",
+  0x47: "SELFBALANCE",
+  0x48: "BASEFEE",
+  0x49: "BLOBHASH",
+  0x4a: "BLOBBASEFEE",
+  0x50: "POP",
+  0x51: "MLOAD",
+  0x52: "MSTORE",
+  0x53: "MSTORE8",
+  0x54: "SLOAD",
+  0x55: "SSTORE",
+  0x56: "JUMP",
+  0x57: "JUMPI",
+  0x58: "PC",
+  0x59: "MSIZE",
+  0x5a: "GAS",
+  0x5b: "JUMPDEST",
+  0x5c: "TLOAD",
+  0x5d: "TSTORE",
+  0x5e: "MCOPY",
+  0x5f: "PUSH0",
+  0xa0: "LOG0",
+  0xa1: "LOG1",
+  0xa2: "LOG2",
+  0xa3: "LOG3",
+  0xa4: "LOG4",
+  0xf0: "CREATE",
+  0xf1: "CALL",
+  0xf2: "CALLCODE",
+  0xf3: "RETURN",
+  0xf4: "DELEGATECALL",
+  0xf5: "CREATE2",
+  0xfa: "STATICCALL",
+  0xfd: "REVERT",
+  0xfe: "INVALID",
+  0xff: "SELFDESTRUCT",
+};
+
+export const OPCODES = {
+  STOP: 0x00,
+  LT: 0x10,
+  GT: 0x11,
+  EQ: 0x14,
+  SHL: 0x1b,
+  CALLDATALOAD: 0x35,
+  JUMP: 0x56,
+  JUMPI: 0x57,
+  JUMPDEST: 0x5b,
+  PUSH0: 0x5f,
+  PUSH1: 0x60,
+  PUSH4: 0x63,
+  PUSH32: 0x7f,
+  RETURN: 0xf3,
+  REVERT: 0xfd,
+  INVALID: 0xfe,
+  SELFDESTRUCT: 0xff,
+} as const;
+
+// Opcodes after which execution never falls through to the next instruction
+const HALTING_OPCODES = new Set<number>([
+  OPCODES.STOP,
+  OPCODES.JUMP,
+  OPCODES.RETURN,
+  OPCODES.REVERT,
+  OPCODES.INVALID,
+  OPCODES.SELFDESTRUCT,
+]);
+
+export const isPush = (opcode: number) => opcode >= OPCODES.PUSH1 && opcode <= OPCODES.PUSH32;
+
+export const isHalting = (opcode: number) => HALTING_OPCODES.has(opcode);
+
+export const getOpcodeName = (opcode: number) => {
+  if (isPush(opcode)) return `PUSH${opcode - OPCODES.PUSH1 + 1}`;
+  if (opcode >= 0x80 && opcode <= 0x8f) return `DUP${opcode - 0x80 + 1}`;
+  if (opcode >= 0x90 && opcode <= 0x9f) return `SWAP${opcode - 0x90 + 1}`;
+  return OPCODE_NAMES[opcode] ?? `UNKNOWN_0x${opcode.toString(16).padStart(2, "0")}`;
+};
+
+/**
+ * Decodes bytecode into instructions. PUSH immediates truncated by the end of the code are kept as-is.
+ */
+export const disassemble = (bytecode: Hex | Uint8Array): Instruction[] => {
+  const bytes = typeof bytecode === "string" ? hexToBytes(bytecode) : bytecode;
+  const instructions: Instruction[] = [];
+
+  let pc = 0;
+  while (pc < bytes.length) {
+    const opcode = bytes[pc];
+    const pushSize = isPush(opcode) ? opcode - OPCODES.PUSH1 + 1 : 0;
+    instructions.push({
+      pc,
+      opcode,
+      name: getOpcodeName(opcode),
+      pushData: pushSize ? bytes.slice(pc + 1, pc + 1 + pushSize) : undefined,
+      size: 1 + pushSize,
+    });
+    pc += 1 + pushSize;
+  }
+
+  return instructions;
+};
+
+/**
+ * Reads a PUSH immediate as a number (only safe for immediates up to 6 bytes, e.g. jump targets and selectors)
+ */
+export const pushDataToNumber = (pushData: Uint8Array | undefined) =>
+  pushData ? pushData.reduce((value, byte) => value * 256 + byte, 0) : 0;
+
+/**
+ * Assembly-style text of an instruction, e.g. "PUSH2 0x1234"
+ */
+export const formatInstruction = (instruction: Instruction) =>
+  instruction.pushData ? `${instruction.name} ${bytesToHex(instruction.pushData)}` : instruction.name;
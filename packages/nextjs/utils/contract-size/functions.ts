@@ -0,0 +1,211 @@
+import { getBytecodeAnatomy } from "./anatomy";
+import { Instruction, OPCODES, disassemble, isHalting, isPush, pushDataToNumber } from "./evm";
+import { Hex, bytesToHex, hexToBytes } from "viem";
+
+export type BasicBlock = {
+  start: number;
+  // Exclusive
+  end: number;
+  instructions: Instruction[];
+  // Statically known jump destinations, plus any pushed JUMPDEST offset (e.g. internal call return addresses)
+  jumpTargets: number[];
+  fallsThrough: boolean;
+};
+
+export type DispatcherEntry = {
+  selector: Hex;
+  // Offset of the JUMPDEST the dispatcher jumps to for this selector
+  entry: number;
+};
+
+export type FunctionSize = DispatcherEntry & {
+  // Sizes in bytes: blocks only this function reaches, blocks shared with others, and both
+  exclusiveSize: number;
+  sharedSize: number;
+  reachableSize: number;
+};
+
+export type FunctionSizeAnalysis = {
+  functions: FunctionSize[];
+  // Blocks reached from the contract entry point before any function: selector matching, fallback...
+  dispatcherSize: number;
+  // Blocks reached by several functions (internal functions, modifiers, shared revert paths...)
+  sharedSize: number;
+  // Code that couldn't be reached with static analysis (e.g. jumps through computed addresses)
+  unattributedSize: number;
+  executableSize: number;
+};
+
+/**
+ * Splits instructions into basic blocks: a block starts at a JUMPDEST and ends after a jump or halting instruction
+ */
+export const getBasicBlocks = (instructions: Instruction[]): BasicBlock[] => {
+  const jumpdests = new Set(instructions.filter(i => i.opcode === OPCODES.JUMPDEST).map(i => i.pc));
+  const blocks: BasicBlock[] = [];
+  let current: Instruction[] = [];
+
+  const closeBlock = () => {
+    if (current.length === 0) return;
+    const last = current[current.length - 1];
+    const jumpTargets = new Set<number>();
+    current.forEach(instruction => {
+      if (!isPush(instruction.opcode) || (instruction.pushData?.length ?? 0) > 4) return;
+      const value = pushDataToNumber(instruction.pushData);
+      if (jumpdests.has(value)) jumpTargets.add(value);
+    });
+    blocks.push({
+      start: current[0].pc,
+      end: last.pc + last.size,
+      instructions: current,
+      jumpTargets: [...jumpTargets],
+      fallsThrough: !isHalting(last.opcode),
+    });
+    current = [];
+  };
+
+  instructions.forEach(instruction => {
+    if (instruction.opcode === OPCODES.JUMPDEST) closeBlock();
+    current.push(instruction);
+    if (instruction.opcode === OPCODES.JUMPI || isHalting(instruction.opcode)) closeBlock();
+  });
+  closeBlock();
+
+  return blocks;
+};
+
+// Comparisons of a PUSH4 telling a dispatcher chain: selector matches and binary search splits
+const PUSH4_COMPARISONS = new Set<number>([OPCODES.EQ, OPCODES.GT, OPCODES.LT]);
+
+/**
+ * Finds the selector dispatcher entries: `PUSH4 <selector> EQ PUSH <dest> JUMPI`.
+ * Selectors with leading zero bytes are pushed with a shorter PUSH. As every JUMPI ends a block, those are judged
+ * on the chain of blocks falling through from one JUMPI to the next: they're only accepted in chains that also
+ * compare a PUSH4 (another selector, or the split point of a binary search dispatcher), to avoid mistaking regular
+ * comparisons for dispatcher entries.
+ */
+export const findDispatcherEntries = (blocks: BasicBlock[]): DispatcherEntry[] => {
+  const entries = new Map<Hex, DispatcherEntry>();
+
+  const chains: BasicBlock[][] = [];
+  blocks.forEach((block, index) => {
+    const previous = blocks[index - 1];
+    const continuesChain =
+      previous?.end === block.start && previous.instructions[previous.instructions.length - 1].opcode === OPCODES.JUMPI;
+    if (continuesChain) chains[chains.length - 1].push(block);
+    else chains.push([block]);
+  });
+
+  chains.forEach(chain => {
+    const candidates: (DispatcherEntry & { pushSize: number })[] = [];
+    let comparesPush4 = false;
+    chain.forEach(({ instructions }) => {
+      for (let i = 0; i + 3 < instructions.length; i++) {
+        const [push, comparison, pushDest, jumpi] = instructions.slice(i, i + 4);
+        const pushSize = push.pushData?.length ?? 0;
+        if (!isPush(push.opcode) || pushSize > 4 || !isPush(pushDest.opcode) || jumpi.opcode !== OPCODES.JUMPI) {
+          continue;
+        }
+        if (comparison.opcode === OPCODES.EQ) {
+          const selector = bytesToHex(new Uint8Array([...new Uint8Array(4 - pushSize), ...(push.pushData ?? [])]));
+          candidates.push({ selector, entry: pushDataToNumber(pushDest.pushData), pushSize });
+        }
+        if (pushSize === 4 && PUSH4_COMPARISONS.has(comparison.opcode)) comparesPush4 = true;
+      }
+    });
+
+    candidates
+      .filter(candidate => comparesPush4 && !entries.has(candidate.selector))
+      .forEach(({ selector, entry }) => entries.set(selector, { selector, entry }));
+  });
+
+  return [...entries.values()];
+};
+
+/**
+ * Starts of the blocks reachable from `startPc`, following static jumps, pushed JUMPDEST offsets and fall-throughs.
+ * Blocks in `stopAt` aren't entered.
+ */
+export const getReachableBlocks = (
+  startPc: number,
+  blocksByStart: Map<number, BasicBlock>,
+  nextBlockStart: Map<number, number>,
+  stopAt: Set<number>,
+) => {
+  const reached = new Set<number>();
+  const queue = [startPc];
+
+  while (queue.length > 0) {
+    const pc = queue.pop() as number;
+    const block = blocksByStart.get(pc);
+    if (!block || reached.has(pc)) continue;
+    reached.add(pc);
+
+    const successors = [...block.jumpTargets];
+    const next = nextBlockStart.get(pc);
+    if (block.fallsThrough && next !== undefined) successors.push(next);
+    successors.filter(successor => !stopAt.has(successor)).forEach(successor => queue.push(successor));
+  }
+
+  return reached;
+};
+
+/**
+ * Estimates the bytes attributable to each external function by walking the basic blocks reachable from its
+ * dispatcher entry. Internal return addresses are followed by treating every pushed JUMPDEST offset as a successor,
+ * which over-approximates reachability but keeps the analysis purely static.
+ */
+export const analyzeFunctionSizes = (bytecode: Hex): FunctionSizeAnalysis => {
+  // Data and metadata are excluded so their bytes aren't mistaken for code
+  const { executableSize } = getBytecodeAnatomy(bytecode);
+  const instructions = disassemble(hexToBytes(bytecode).slice(0, executableSize));
+  const blocks = getBasicBlocks(instructions);
+  const entries = findDispatcherEntries(blocks);
+
+  const blocksByStart = new Map(blocks.map(block => [block.start, block]));
+  const nextBlockStart = new Map(blocks.slice(0, -1).map((block, index) => [block.start, blocks[index + 1].start]));
+  const entryPcs = new Set(entries.map(entry => entry.entry));
+  const blockSize = (pc: number) => {
+    const block = blocksByStart.get(pc);
+    return block ? block.end - block.start : 0;
+  };
+
+  const dispatcherBlocks =
+    blocks.length > 0 ? getReachableBlocks(0, blocksByStart, nextBlockStart, entryPcs) : new Set<number>();
+  const functionBlocks = entries.map(entry =>
+    getReachableBlocks(
+      entry.entry,
+      blocksByStart,
+      nextBlockStart,
+      new Set([...entryPcs].filter(pc => pc !== entry.entry)),
+    ),
+  );
+
+  const reachCount = new Map<number, number>();
+  functionBlocks.forEach(reached => reached.forEach(pc => reachCount.set(pc, (reachCount.get(pc) ?? 0) + 1)));
+  const isExclusive = (pc: number) => reachCount.get(pc) === 1 && !dispatcherBlocks.has(pc);
+
+  const functions = entries.map((entry, index): FunctionSize => {
+    let exclusiveSize = 0;
+    let sharedSize = 0;
+    functionBlocks[index].forEach(pc => {
+      if (isExclusive(pc)) exclusiveSize += blockSize(pc);
+      else sharedSize += blockSize(pc);
+    });
+    return { ...entry, exclusiveSize, sharedSize, reachableSize: exclusiveSize + sharedSize };
+  });
+
+  const dispatcherSize = [...dispatcherBlocks].reduce((total, pc) => total + blockSize(pc), 0);
+  let sharedSize = 0;
+  reachCount.forEach((count, pc) => {
+    if (count > 1 && !dispatcherBlocks.has(pc)) sharedSize += blockSize(pc);
+  });
+  const attributedSize = functions.reduce((total, fn) => total + fn.exclusiveSize, dispatcherSize + sharedSize);
+
+  return {
+    functions,
+    dispatcherSize,
+    sharedSize,
+    unattributedSize: executableSize - attributedSize,
+    executableSize,
+  };
+};
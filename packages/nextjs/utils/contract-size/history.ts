@@ -0,0 +1,63 @@
+import { HISTORY_STORE, idbRequest, withStore } from "./db";
+import { ContractSizeData } from "./size";
+import { Address, Hex } from "viem";
+
+export type HistoryEntry = {
+  // `${chainId}:${address}`, an address checked again on the same chain replaces its entry
+  id: string;
+  chainId: number;
+  address: Address;
+  codeHash?: Hex;
+  // Block the code was read at, kept as a string for IndexedDB (unknown for migrated entries)
+  blockNumber?: string;
+  data: ContractSizeData;
+  label: string;
+  pinned: boolean;
+  timestamp: number;
+};
+
+// Where history was kept before it moved to IndexedDB
+const LEGACY_HISTORY_STORAGE_KEY = "contractSizeHistory";
+
+export const getHistoryEntryId = (chainId: number, address: string) => `${chainId}:${address.toLowerCase()}`;
+
+export const getHistoryEntries = () =>
+  withStore(HISTORY_STORE, "readonly", store => idbRequest<HistoryEntry[]>(store.getAll()));
+
+export const saveHistoryEntry = (entry: HistoryEntry) =>
+  withStore(HISTORY_STORE, "readwrite", store => idbRequest(store.put(entry)));
+
+export const deleteHistoryEntries = (ids: string[]) =>
+  withStore(HISTORY_STORE, "readwrite", store => {
+    ids.forEach(id => store.delete(id));
+  });
+
+/**
+ * Moves the history kept in localStorage by earlier versions into IndexedDB.
+ * Those entries didn't record their chain, they are assigned to `chainId`.
+ */
+export const migrateLegacyHistory = async (chainId: number) => {
+  const savedHistory = localStorage.getItem(LEGACY_HISTORY_STORAGE_KEY);
+  if (!savedHistory) return;
+
+  try {
+    const legacyItems: { address: Address; data: ContractSizeData; timestamp: number }[] = JSON.parse(savedHistory);
+    await withStore(HISTORY_STORE, "readwrite", store => {
+      legacyItems.forEach(item => {
+        const entry: HistoryEntry = {
+          id: getHistoryEntryId(chainId, item.address),
+          chainId,
+          address: item.address,
+          data: item.data,
+          label: "",
+          pinned: false,
+          timestamp: item.timestamp,
+        };
+        store.put(entry);
+      });
+    });
+    localStorage.removeItem(LEGACY_HISTORY_STORAGE_KEY);
+  } catch (e) {
+    console.error("Failed to migrate history from localStorage", e);
+  }
+};
@@ -0,0 +1,29 @@
+export * from "./advisor";
+export * from "./anatomy";
+export * from "./artifact";
+export * from "./badge";
+export * from "./batch";
+export * from "./budget";
+export * from "./cbor";
+export * from "./check";
+export * from "./classification";
+export * from "./cost";
+export * from "./creation";
+export * from "./crossChain";
+export * from "./db";
+export * from "./diff";
+export * from "./evm";
+export * from "./functions";
+export * from "./history";
+export * from "./json";
+export * from "./leaderboard";
+export * from "./limits";
+export * from "./probe";
+export * from "./proxy";
+export * from "./report";
+export * from "./signatures";
+export * from "./simulation";
+export * from "./size";
+export * from "./storage";
+export * from "./timeline";
+export * from "./watch";
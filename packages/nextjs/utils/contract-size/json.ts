@@ -0,0 +1,5 @@
+/**
+ * Whether a parsed JSON value is an object, as opposed to an array, a primitive or null
+ */
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
@@ -0,0 +1,110 @@
+import { BlockCreationLookup, findBlockContractCreations } from "./creation";
+import { DEPLOYMENTS_STORE, SCAN_STATE_STORE, idbRequest, withStore } from "./db";
+import { getBytecodeSize } from "./size";
+import { Address, Hash, PublicClient, isAddressEqual } from "viem";
+
+export type ScannedDeployment = {
+  chainId: number;
+  address: Address;
+  deployer: Address;
+  factory?: Address;
+  transactionHash: Hash;
+  // Block numbers are kept as strings, IndexedDB keys and JSON don't handle bigints
+  blockNumber: string;
+  // Block timestamp in seconds
+  timestamp: number;
+  // Sizes in bytes
+  size: number;
+  initcodeSize: number;
+};
+
+export type ScanState = {
+  chainId: number;
+  startBlock: string;
+  // Last block fully scanned, every block from startBlock up to it is in the deployments store
+  lastScannedBlock?: string;
+  source?: BlockCreationLookup["source"];
+};
+
+export const getScanState = (chainId: number) =>
+  withStore(SCAN_STATE_STORE, "readonly", store => idbRequest<ScanState | undefined>(store.get(chainId)));
+
+export const getScannedDeployments = (chainId: number) =>
+  withStore(DEPLOYMENTS_STORE, "readonly", store =>
+    idbRequest<ScannedDeployment[]>(store.index("chainId").getAll(chainId)),
+  );
+
+/**
+ * Forgets everything scanned on a chain, so the scan can restart from another block
+ */
+export const resetScan = async (chainId: number, startBlock: bigint) => {
+  await withStore(DEPLOYMENTS_STORE, "readwrite", async store => {
+    const keys = await idbRequest(store.index("chainId").getAllKeys(chainId));
+    keys.forEach(key => store.delete(key));
+  });
+  const state: ScanState = { chainId, startBlock: startBlock.toString() };
+  await withStore(SCAN_STATE_STORE, "readwrite", store => idbRequest(store.put(state)));
+  return state;
+};
+
+/**
+ * Finds and measures the contracts deployed in a block
+ */
+export const scanBlock = async (
+  client: PublicClient,
+  chainId: number,
+  blockNumber: bigint,
+  source?: BlockCreationLookup["source"],
+) => {
+  const lookup = await findBlockContractCreations(client, blockNumber, source);
+  const deployments = await Promise.all(
+    lookup.creations.map(async (creation): Promise<ScannedDeployment> => {
+      // Size at deployment: the trace output when there is one, else the code right after the block
+      const runtimeCode = creation.runtimeCode ?? (await client.getCode({ address: creation.address, blockNumber }));
+      return {
+        chainId,
+        address: creation.address,
+        deployer: creation.deployer,
+        // Top-level trace frames report the deployer itself as the creator
+        factory:
+          creation.factory && !isAddressEqual(creation.factory, creation.deployer) ? creation.factory : undefined,
+        transactionHash: creation.transactionHash,
+        blockNumber: blockNumber.toString(),
+        timestamp: Number(lookup.timestamp),
+        size: getBytecodeSize(runtimeCode),
+        initcodeSize: getBytecodeSize(creation.initcode),
+      };
+    }),
+  );
+  return { source: lookup.source, deployments };
+};
+
+/**
+ * Scans blocks one by one from where the saved scan stopped up to `toBlock`, saving the deployments found and the
+ * progress after each block so a later call resumes instead of starting over
+ */
+export const runDeploymentScan = async (
+  client: PublicClient,
+  state: ScanState,
+  toBlock: bigint,
+  {
+    onBlock,
+    signal,
+  }: { onBlock?: (state: ScanState, deployments: ScannedDeployment[]) => void; signal?: AbortSignal } = {},
+) => {
+  let currentState = state;
+  let blockNumber = state.lastScannedBlock ? BigInt(state.lastScannedBlock) + 1n : BigInt(state.startBlock);
+
+  while (blockNumber <= toBlock && !signal?.aborted) {
+    const { source, deployments } = await scanBlock(client, state.chainId, blockNumber, currentState.source);
+    currentState = { ...currentState, lastScannedBlock: blockNumber.toString(), source };
+    await withStore(DEPLOYMENTS_STORE, "readwrite", store => {
+      deployments.forEach(deployment => store.put(deployment));
+    });
+    await withStore(SCAN_STATE_STORE, "readwrite", store => idbRequest(store.put(currentState)));
+
+    onBlock?.(currentState, deployments);
+    blockNumber++;
+  }
+  return currentState;
+};
@@ -0,0 +1,26 @@
+import scaffoldConfig, { ContractSizeLimits, ScaffoldConfig } from "~~/scaffold.config";
+import { NETWORKS_EXTRA_DATA } from "~~/utils/scaffold-eth/networks";
+
+// EIP-170 runtime code limit
+export const EIP170_RUNTIME_CODE_LIMIT = 24_576;
+// EIP-3860 initcode limit (2 * EIP-170)
+export const EIP3860_INITCODE_LIMIT = 49_152;
+
+export const DEFAULT_CONTRACT_SIZE_LIMITS: ContractSizeLimits = {
+  runtimeCodeLimit: EIP170_RUNTIME_CODE_LIMIT,
+  initcodeLimit: EIP3860_INITCODE_LIMIT,
+};
+
+/**
+ * Returns the code size limits of a chain: scaffold.config overrides first, then NETWORKS_EXTRA_DATA,
+ * then the Ethereum defaults
+ */
+export const getContractSizeLimits = (chainId: number): ContractSizeLimits => {
+  const override = (scaffoldConfig.contractSizeLimits as ScaffoldConfig["contractSizeLimits"])?.[chainId];
+  return override ?? NETWORKS_EXTRA_DATA[chainId]?.sizeLimits ?? DEFAULT_CONTRACT_SIZE_LIMITS;
+};
+
+/**
+ * Formats a byte count as KB, dropping trailing zeros (e.g. 24576 -> "24 KB")
+ */
+export const formatKB = (bytes: number, fractionDigits = 2) => `${Number((bytes / 1024).toFixed(fractionDigits))} KB`;
@@ -0,0 +1,95 @@
+import { classifyDeploymentError } from "./simulation";
+import { Hex, PublicClient, concatHex, numberToHex, padHex } from "viem";
+
+export type CodeSizeProbeKind = "runtime" | "initcode";
+
+export type CodeSizeProbeMethod = "call" | "estimateGas";
+
+export type CodeSizeProbeResult = {
+  kind: CodeSizeProbeKind;
+  // Largest size in bytes the node accepted
+  limit: number;
+  // Whether the limit was found, or every size up to the probe's max was accepted
+  isBounded: boolean;
+  // The node's error for one byte over the limit
+  rejectionMessage?: string;
+  requests: number;
+};
+
+export type CodeSizeProbeOptions = {
+  method?: CodeSizeProbeMethod;
+  // Largest size tried, in bytes
+  maxSize: number;
+  onProgress?: (range: { accepted: number; rejected: number }) => void;
+  signal?: AbortSignal;
+};
+
+// PUSH3 <size> PUSH1 0 RETURN: returns `size` bytes of zeroed memory, so the runtime code is `size` STOPs
+const RETURN_ZEROS_CODE_SIZE = 7;
+
+/**
+ * Initcode deploying `runtimeSize` bytes of runtime code, itself only 7 bytes long
+ */
+export const buildRuntimeProbeInitcode = (runtimeSize: number): Hex =>
+  concatHex(["0x62", padHex(numberToHex(runtimeSize), { size: 3 }), "0x6000f3"]);
+
+/**
+ * Initcode of `initcodeSize` bytes (at least 7) deploying no code: a RETURN of nothing padded with zeros it never
+ * runs, which are also the cheapest calldata
+ */
+export const buildInitcodeProbe = (initcodeSize: number): Hex =>
+  padHex(buildRuntimeProbeInitcode(0), { dir: "right", size: Math.max(initcodeSize, RETURN_ZEROS_CODE_SIZE) });
+
+export const buildCodeSizeProbe = (kind: CodeSizeProbeKind, size: number) =>
+  kind === "runtime" ? buildRuntimeProbeInitcode(size) : buildInitcodeProbe(size);
+
+/**
+ * Finds the largest runtime code or initcode a node accepts, by binary searching deployments simulated with
+ * eth_call or eth_estimateGas. Probes get the block gas limit, so the code deposit of large sizes is paid for;
+ * a rejection that isn't about the size (e.g. out of gas) stops the probe.
+ */
+export const probeCodeSizeLimit = async (
+  client: PublicClient,
+  kind: CodeSizeProbeKind,
+  { method = "call", maxSize, onProgress, signal }: CodeSizeProbeOptions,
+): Promise<CodeSizeProbeResult> => {
+  const { gasLimit } = await client.getBlock();
+  let requests = 0;
+
+  // Undefined when accepted, the node's message when rejected because of the size
+  const tryDeployment = async (size: number): Promise<string | undefined> => {
+    if (signal?.aborted) throw new Error("Probe cancelled");
+    requests++;
+    const data = buildCodeSizeProbe(kind, size);
+    try {
+      if (method === "call") await client.call({ data, gas: gasLimit });
+      else await client.estimateGas({ data, gas: gasLimit });
+      return undefined;
+    } catch (err: any) {
+      const message: string = err.details || err.shortMessage || err.message;
+      const reason = classifyDeploymentError([err.details, err.shortMessage, err.message].filter(Boolean).join(" "));
+      if (reason === (kind === "runtime" ? "runtime-size-limit" : "initcode-size-limit")) return message;
+      throw new Error(`The node rejected a ${size} byte probe for another reason than its size: ${message}`);
+    }
+  };
+
+  const maxRejection = await tryDeployment(maxSize);
+  if (maxRejection === undefined) return { kind, limit: maxSize, isBounded: false, requests };
+
+  // Invariant: `accepted` was accepted (nothing is accepted at 0), `rejected` was rejected
+  let accepted = 0;
+  let rejected = maxSize;
+  let rejectionMessage = maxRejection;
+  while (rejected - accepted > 1) {
+    onProgress?.({ accepted, rejected });
+    const size = Math.floor((accepted + rejected) / 2);
+    const rejection = await tryDeployment(size);
+    if (rejection === undefined) {
+      accepted = size;
+    } else {
+      rejected = size;
+      rejectionMessage = rejection;
+    }
+  }
+  return { kind, limit: accepted, isBounded: true, rejectionMessage, requests };
+};
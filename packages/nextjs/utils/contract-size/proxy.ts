@@ -0,0 +1,166 @@
+import { formatKB } from "./limits";
+import { getBytecodeSize } from "./size";
+import { Address, Hex, PublicClient, getAddress, parseAbi, zeroAddress } from "viem";
+
+export type ProxyKind = "eip1167" | "eip1967" | "uups" | "beacon" | "diamond";
+
+export type ProxyImplementation = {
+  address: Address;
+  role: "implementation" | "beacon" | "facet";
+  // Size in bytes of the implementation code
+  size: number;
+  // Number of selectors routed to this facet (diamonds only)
+  selectorCount?: number;
+};
+
+export type ProxyResolution = {
+  kind: ProxyKind;
+  // Size in bytes of the proxy itself
+  proxySize: number;
+  implementations: ProxyImplementation[];
+  // Sum of the implementation sizes, e.g. all the facets of a diamond (beacons excluded)
+  totalImplementationSize: number;
+};
+
+export const PROXY_KIND_LABELS: Record<ProxyKind, string> = {
+  eip1167: "EIP-1167 minimal proxy",
+  eip1967: "EIP-1967 transparent proxy",
+  uups: "UUPS proxy (EIP-1822 / EIP-1967)",
+  beacon: "EIP-1967 beacon proxy",
+  diamond: "EIP-2535 diamond",
+};
+
+// bytes32(uint256(keccak256('eip1967.proxy.implementation')) - 1)
+export const EIP1967_IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+// bytes32(uint256(keccak256('eip1967.proxy.beacon')) - 1)
+export const EIP1967_BEACON_SLOT = "0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50";
+
+// EIP-1167 minimal proxy, and its PUSH0 variant (ERC-7511)
+const MINIMAL_PROXY_PATTERNS = [
+  /^0x363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3$/i,
+  /^0x365f5f375f5f365f73([0-9a-f]{40})5af43d5f5f3e5f3d91602a57fd5bf3$/i,
+];
+
+const proxyAbi = parseAbi([
+  "function implementation() view returns (address)",
+  "function proxiableUUID() view returns (bytes32)",
+  "function facets() view returns ((address facetAddress, bytes4[] functionSelectors)[])",
+]);
+
+const slotToAddress = (slotValue: Hex | undefined) => {
+  if (!slotValue || BigInt(slotValue) === 0n) return undefined;
+  const address = getAddress(`0x${slotValue.slice(-40)}`);
+  return address === zeroAddress ? undefined : address;
+};
+
+/**
+ * Returns the implementation address embedded in EIP-1167 minimal proxy bytecode
+ */
+export const getMinimalProxyImplementation = (bytecode: Hex) => {
+  for (const pattern of MINIMAL_PROXY_PATTERNS) {
+    const match = bytecode.match(pattern);
+    if (match) return getAddress(`0x${match[1]}`);
+  }
+  return undefined;
+};
+
+const getCodeSize = async (client: PublicClient, address: Address, blockNumber?: bigint) =>
+  getBytecodeSize(await client.getCode({ address, blockNumber }));
+
+/**
+ * Detects the common proxy patterns and measures the code they delegate to:
+ * EIP-1167 minimal proxies, EIP-1967 implementation and beacon slots (UUPS when the implementation is proxiable),
+ * and EIP-2535 diamonds through `facets()`. Pass `blockNumber` to resolve the proxy as it was at that block.
+ */
+export const resolveProxy = async (
+  client: PublicClient,
+  address: Address,
+  bytecode: Hex,
+  blockNumber?: bigint,
+): Promise<ProxyResolution | undefined> => {
+  const proxySize = getBytecodeSize(bytecode);
+  const withTotal = (kind: ProxyKind, implementations: ProxyImplementation[]): ProxyResolution => ({
+    kind,
+    proxySize,
+    implementations,
+    totalImplementationSize: implementations
+      .filter(implementation => implementation.role !== "beacon")
+      .reduce((total, implementation) => total + implementation.size, 0),
+  });
+
+  const minimalProxyImplementation = getMinimalProxyImplementation(bytecode);
+  if (minimalProxyImplementation) {
+    return withTotal("eip1167", [
+      {
+        address: minimalProxyImplementation,
+        role: "implementation",
+        size: await getCodeSize(client, minimalProxyImplementation, blockNumber),
+      },
+    ]);
+  }
+
+  const [implementationSlot, beaconSlot] = await Promise.all([
+    client.getStorageAt({ address, slot: EIP1967_IMPLEMENTATION_SLOT, blockNumber }),
+    client.getStorageAt({ address, slot: EIP1967_BEACON_SLOT, blockNumber }),
+  ]);
+
+  const implementation = slotToAddress(implementationSlot);
+  if (implementation) {
+    const isUups = await client
+      .readContract({ address: implementation, abi: proxyAbi, functionName: "proxiableUUID", blockNumber })
+      .then(uuid => uuid === EIP1967_IMPLEMENTATION_SLOT)
+      .catch(() => false);
+    return withTotal(isUups ? "uups" : "eip1967", [
+      { address: implementation, role: "implementation", size: await getCodeSize(client, implementation, blockNumber) },
+    ]);
+  }
+
+  const beacon = slotToAddress(beaconSlot);
+  if (beacon) {
+    const beaconImplementation = await client.readContract({
+      address: beacon,
+      abi: proxyAbi,
+      functionName: "implementation",
+      blockNumber,
+    });
+    const [beaconSize, implementationSize] = await Promise.all([
+      getCodeSize(client, beacon, blockNumber),
+      getCodeSize(client, beaconImplementation, blockNumber),
+    ]);
+    return withTotal("beacon", [
+      { address: beacon, role: "beacon", size: beaconSize },
+      { address: beaconImplementation, role: "implementation", size: implementationSize },
+    ]);
+  }
+
+  const facets = await client
+    .readContract({ address, abi: proxyAbi, functionName: "facets", blockNumber })
+    .catch(() => undefined);
+  if (facets && facets.length > 0) {
+    const facetImplementations = await Promise.all(
+      facets.map(
+        async (facet): Promise<ProxyImplementation> => ({
+          address: facet.facetAddress,
+          role: "facet",
+          size: await getCodeSize(client, facet.facetAddress, blockNumber),
+          selectorCount: facet.functionSelectors.length,
+        }),
+      ),
+    );
+    return withTotal("diamond", facetImplementations);
+  }
+
+  return undefined;
+};
+
+/**
+ * One-line summary of a proxy and the size of the code behind it, for tables
+ */
+export const describeProxyResolution = ({ kind, implementations, totalImplementationSize }: ProxyResolution) => {
+  const facetCount = implementations.filter(implementation => implementation.role === "facet").length;
+  if (kind === "diamond")
+    return `${PROXY_KIND_LABELS[kind]}, ${facetCount} facets: ${formatKB(totalImplementationSize)}`;
+  return implementations.some(implementation => implementation.role === "implementation")
+    ? `${PROXY_KIND_LABELS[kind]}, implementation: ${formatKB(totalImplementationSize)}`
+    : PROXY_KIND_LABELS[kind];
+};
@@ -0,0 +1,225 @@
+import { formatKB } from "./limits";
+import { Address, Hex } from "viem";
+
+export const SIZE_REPORT_SCHEMA = "sizoor/size-report";
+export const SIZE_REPORT_VERSION = 1;
+
+export type SizeReportSource = "result" | "history" | "batch" | "hardhat-contract-sizer" | "forge";
+
+export type SizeReportEntry = {
+  // Contract name from build tools, or a user label
+  name?: string;
+  address?: Address;
+  chainId?: number;
+  codeHash?: Hex;
+  blockNumber?: string;
+  // Sizes and limit in bytes
+  size: number;
+  initcodeSize?: number;
+  limit?: number;
+};
+
+export type SizeReport = {
+  schema: typeof SIZE_REPORT_SCHEMA;
+  version: typeof SIZE_REPORT_VERSION;
+  source: SizeReportSource;
+  generatedAt: string;
+  entries: SizeReportEntry[];
+};
+
+export type SizeReportFormat = "json" | "csv" | "markdown";
+
+export const createSizeReport = (source: SizeReportSource, entries: SizeReportEntry[]): SizeReport => ({
+  schema: SIZE_REPORT_SCHEMA,
+  version: SIZE_REPORT_VERSION,
+  source,
+  generatedAt: new Date().toISOString(),
+  entries,
+});
+
+/**
+ * Name shown for an entry: its name when known, else its address
+ */
+export const getReportEntryKey = (entry: SizeReportEntry) => entry.name || entry.address || "unknown";
+
+const REPORT_COLUMNS: { header: string; value: (entry: SizeReportEntry) => string | number | undefined }[] = [
+  { header: "name", value: entry => entry.name },
+  { header: "address", value: entry => entry.address },
+  { header: "chainId", value: entry => entry.chainId },
+  { header: "blockNumber", value: entry => entry.blockNumber },
+  { header: "codeHash", value: entry => entry.codeHash },
+  { header: "size", value: entry => entry.size },
+  { header: "initcodeSize", value: entry => entry.initcodeSize },
+  { header: "limit", value: entry => entry.limit },
+  {
+    header: "percentageOfLimit",
+    value: entry => (entry.limit ? ((entry.size / entry.limit) * 100).toFixed(2) : undefined),
+  },
+];
+
+const escapeCsv = (value: string | number | undefined) => {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (report: SizeReport) =>
+  [
+    REPORT_COLUMNS.map(column => column.header).join(","),
+    ...report.entries.map(entry => REPORT_COLUMNS.map(column => escapeCsv(column.value(entry))).join(",")),
+  ].join("\n");
+
+const escapeMarkdown = (text: string) => text.replace(/\|/g, "\\|");
+
+const toMarkdown = (report: SizeReport) => {
+  const hasInitcode = report.entries.some(entry => entry.initcodeSize !== undefined);
+  const headers = ["Contract", "Size", ...(hasInitcode ? ["Initcode"] : []), "% of limit"];
+  const rows = report.entries.map(entry => [
+    entry.name && entry.address
+      ? `${escapeMarkdown(entry.name)} (\`${entry.address}\`)`
+      : entry.name
+        ? escapeMarkdown(entry.name)
+        : `\`${entry.address}\``,
+    formatKB(entry.size),
+    ...(hasInitcode ? [entry.initcodeSize !== undefined ? formatKB(entry.initcodeSize) : "-"] : []),
+    entry.limit ? `${((entry.size / entry.limit) * 100).toFixed(1)}% of ${formatKB(entry.limit)}` : "-",
+  ]);
+  return [
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map((_, index) => (index === 0 ? "---" : "---:")).join(" | ")} |`,
+    ...rows.map(row => `| ${row.join(" | ")} |`),
+  ].join("\n");
+};
+
+/**
+ * Serializes a report, JSON keeps everything and can be imported back
+ */
+export const formatSizeReport = (report: SizeReport, format: SizeReportFormat) => {
+  switch (format) {
+    case "json":
+      return JSON.stringify(report, null, 2);
+    case "csv":
+      return toCsv(report);
+    case "markdown":
+      return toMarkdown(report);
+  }
+};
+
+const KIB = 1024;
+
+type ForgeSizes = Record<string, { runtime_size?: number; init_size?: number; runtime_margin?: number; size?: number }>;
+
+const isForgeSizes = (json: unknown): json is ForgeSizes =>
+  !!json &&
+  typeof json === "object" &&
+  !Array.isArray(json) &&
+  Object.values(json).every(
+    value => !!value && typeof value === "object" && ("runtime_size" in value || "size" in value),
+  );
+
+const parseForgeSizes = (json: ForgeSizes) =>
+  createSizeReport(
+    "forge",
+    Object.entries(json).map(([name, sizes]) => {
+      // Older forge versions only report `size`, newer ones split runtime and init code
+      const size = sizes.runtime_size ?? sizes.size ?? 0;
+      return {
+        name,
+        size,
+        initcodeSize: sizes.init_size,
+        // The margin is what's left under the EIP-170 limit forge checks against
+        limit: sizes.runtime_margin !== undefined ? size + sizes.runtime_margin : undefined,
+      };
+    }),
+  );
+
+/**
+ * Parses the table `hardhat-contract-sizer` prints, or writes to its `outputFile`
+ */
+const parseHardhatContractSizer = (text: string) => {
+  const rows = text
+    .split("\n")
+    .map(line =>
+      line
+        .split(/[|·│]/)
+        .map(cell => cell.trim())
+        .filter(Boolean),
+    )
+    .filter(cells => cells.length >= 2);
+
+  const headerIndex = rows.findIndex(cells => cells[0].toLowerCase() === "contract name");
+  const header = rows[headerIndex];
+  if (!header) return undefined;
+  const sizeColumn = header.findIndex(cell => /^(deployed )?size/i.test(cell));
+  const initcodeColumn = header.findIndex(cell => /^initcode size/i.test(cell));
+  if (sizeColumn < 0) return undefined;
+
+  const parseKiB = (cell: string | undefined) => {
+    // Cells can carry the change since the last run, e.g. "12.345 (+0.100)"
+    const value = cell ? parseFloat(cell) : NaN;
+    return Number.isNaN(value) ? undefined : Math.round(value * KIB);
+  };
+
+  const entries = rows.slice(headerIndex + 1).flatMap((cells): SizeReportEntry[] => {
+    const size = parseKiB(cells[sizeColumn]);
+    return size === undefined
+      ? []
+      : [{ name: cells[0], size, initcodeSize: initcodeColumn >= 0 ? parseKiB(cells[initcodeColumn]) : undefined }];
+  });
+  return entries.length > 0 ? createSizeReport("hardhat-contract-sizer", entries) : undefined;
+};
+
+const isOptionalSize = (value: unknown) =>
+  value === undefined || (typeof value === "number" && Number.isFinite(value) && value >= 0);
+
+/**
+ * Checks the shape of a JSON report claiming this app's schema, so a hand-edited or truncated file is reported
+ * instead of breaking the comparison
+ */
+const validateSizeReport = (json: Record<string, unknown>): SizeReport => {
+  const { version, entries } = json;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid size report: missing or invalid version (${String(version)})`);
+  }
+  if (version > SIZE_REPORT_VERSION) {
+    throw new Error(`This report uses schema version ${version}, this app reads up to ${SIZE_REPORT_VERSION}`);
+  }
+  if (!Array.isArray(entries)) {
+    throw new Error("Invalid size report: entries must be an array");
+  }
+  entries.forEach((entry, index) => {
+    if (!entry || typeof entry !== "object") {
+      throw new Error(`Invalid size report: entry ${index + 1} is not an object`);
+    }
+    const { name, address, size, initcodeSize, limit } = entry as Record<string, unknown>;
+    if (typeof name !== "string" && typeof address !== "string") {
+      throw new Error(`Invalid size report: entry ${index + 1} has neither a name nor an address`);
+    }
+    if (size === undefined || !isOptionalSize(size)) {
+      throw new Error(`Invalid size report: entry ${index + 1} has no valid size`);
+    }
+    if (!isOptionalSize(initcodeSize) || !isOptionalSize(limit)) {
+      throw new Error(`Invalid size report: entry ${index + 1} has an invalid initcode size or limit`);
+    }
+  });
+  return json as SizeReport;
+};
+
+/**
+ * Reads a size report exported by this app, `forge build --sizes --json` output or `hardhat-contract-sizer` output
+ */
+export const parseSizeReport = (text: string): SizeReport => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    const hardhatReport = parseHardhatContractSizer(text);
+    if (hardhatReport) return hardhatReport;
+    throw new Error("Unrecognized file: expected a size report, forge --sizes --json or hardhat-contract-sizer output");
+  }
+
+  if (json && typeof json === "object" && "schema" in json && json.schema === SIZE_REPORT_SCHEMA) {
+    return validateSizeReport(json as Record<string, unknown>);
+  }
+  if (isForgeSizes(json)) return parseForgeSizes(json);
+  throw new Error("Unrecognized JSON: expected a size report or forge --sizes --json output");
+};
@@ -0,0 +1,129 @@
+import { Abi, Hex, toFunctionSelector, toFunctionSignature } from "viem";
+
+// Offline list of widely used function signatures, used to name selectors when no ABI is provided
+export const COMMON_FUNCTION_SIGNATURES = [
+  // ERC-20
+  "name()",
+  "symbol()",
+  "decimals()",
+  "totalSupply()",
+  "balanceOf(address)",
+  "transfer(address,uint256)",
+  "transferFrom(address,address,uint256)",
+  "approve(address,uint256)",
+  "allowance(address,address)",
+  "increaseAllowance(address,uint256)",
+  "decreaseAllowance(address,uint256)",
+  "mint(address,uint256)",
+  "burn(uint256)",
+  "burn(address,uint256)",
+  "burnFrom(address,uint256)",
+  // ERC-2612
+  "permit(address,address,uint256,uint256,uint8,bytes32,bytes32)",
+  "nonces(address)",
+  "DOMAIN_SEPARATOR()",
+  "eip712Domain()",
+  // ERC-721
+  "ownerOf(uint256)",
+  "safeTransferFrom(address,address,uint256)",
+  "safeTransferFrom(address,address,uint256,bytes)",
+  "setApprovalForAll(address,bool)",
+  "getApproved(uint256)",
+  "isApprovedForAll(address,address)",
+  "tokenURI(uint256)",
+  "tokenByIndex(uint256)",
+  "tokenOfOwnerByIndex(address,uint256)",
+  "safeMint(address,uint256)",
+  "baseURI()",
+  // ERC-1155
+  "balanceOfBatch(address[],uint256[])",
+  "safeTransferFrom(address,address,uint256,uint256,bytes)",
+  "safeBatchTransferFrom(address,address,uint256[],uint256[],bytes)",
+  "uri(uint256)",
+  // ERC-165
+  "supportsInterface(bytes4)",
+  // Receivers
+  "onERC721Received(address,address,uint256,bytes)",
+  "onERC1155Received(address,address,uint256,uint256,bytes)",
+  "onERC1155BatchReceived(address,address,uint256[],uint256[],bytes)",
+  // ERC-4626
+  "asset()",
+  "totalAssets()",
+  "convertToShares(uint256)",
+  "convertToAssets(uint256)",
+  "maxDeposit(address)",
+  "previewDeposit(uint256)",
+  "deposit(uint256,address)",
+  "maxMint(address)",
+  "previewMint(uint256)",
+  "mint(uint256,address)",
+  "maxWithdraw(address)",
+  "previewWithdraw(uint256)",
+  "withdraw(uint256,address,address)",
+  "maxRedeem(address)",
+  "previewRedeem(uint256)",
+  "redeem(uint256,address,address)",
+  // Ownable / AccessControl / Pausable
+  "owner()",
+  "pendingOwner()",
+  "transferOwnership(address)",
+  "acceptOwnership()",
+  "renounceOwnership()",
+  "hasRole(bytes32,address)",
+  "getRoleAdmin(bytes32)",
+  "grantRole(bytes32,address)",
+  "revokeRole(bytes32,address)",
+  "renounceRole(bytes32,address)",
+  "DEFAULT_ADMIN_ROLE()",
+  "paused()",
+  "pause()",
+  "unpause()",
+  // Proxies and upgrades
+  "implementation()",
+  "admin()",
+  "changeAdmin(address)",
+  "upgradeTo(address)",
+  "upgradeToAndCall(address,bytes)",
+  "proxiableUUID()",
+  "UPGRADE_INTERFACE_VERSION()",
+  "initialize()",
+  "facets()",
+  "facetAddress(bytes4)",
+  "facetAddresses()",
+  "facetFunctionSelectors(address)",
+  "diamondCut((address,uint8,bytes4[])[],address,bytes)",
+  // Misc
+  "multicall(bytes[])",
+  "execute(address,uint256,bytes)",
+  "withdraw()",
+  "withdraw(uint256)",
+  "deposit()",
+  "version()",
+  "getBalance()",
+  "setGreeting(string)",
+  "greeting()",
+  "increment()",
+  "number()",
+  "setNumber(uint256)",
+];
+
+let commonSelectorNames: Map<Hex, string> | undefined;
+
+/**
+ * Maps selectors to human readable signatures, from the user's ABI first and then the bundled signature list
+ */
+export const getSelectorNames = (abi?: Abi): Map<Hex, string> => {
+  if (!commonSelectorNames) {
+    commonSelectorNames = new Map(
+      COMMON_FUNCTION_SIGNATURES.map(signature => [toFunctionSelector(signature), signature] as const),
+    );
+  }
+
+  const names = new Map(commonSelectorNames);
+  abi?.forEach(item => {
+    if (item.type === "function") {
+      names.set(toFunctionSelector(item), toFunctionSignature(item));
+    }
+  });
+  return names;
+};
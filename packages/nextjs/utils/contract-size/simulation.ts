@@ -0,0 +1,72 @@
+import { getBytecodeSize } from "./size";
+import { Hex, PublicClient, concatHex, isHex } from "viem";
+
+export type DeploymentRejectionReason = "runtime-size-limit" | "initcode-size-limit" | "reverted" | "other";
+
+export type DryRunResult = {
+  // Sizes in bytes
+  initcodeSize: number;
+  runtimeCode?: Hex;
+  runtimeSize?: number;
+  rejection?: {
+    reason: DeploymentRejectionReason;
+    message: string;
+  };
+};
+
+// Error messages returned by the main clients (geth, reth, nethermind, erigon, besu, anvil, hardhat...)
+const RUNTIME_SIZE_ERRORS = [
+  /max code size exceeded/i,
+  /code size to deposit exceeds/i,
+  /contract ?size ?limit/i,
+  /codesizelimit/i,
+  /code is too large/i,
+  /contract code size exceeds/i,
+];
+const INITCODE_SIZE_ERRORS = [/max initcode size exceeded/i, /initcode (size|is too)/i, /initcodesizelimit/i];
+
+/**
+ * Tells from a node error message whether the deployment failed because of a code size limit
+ */
+export const classifyDeploymentError = (message: string): DeploymentRejectionReason => {
+  if (INITCODE_SIZE_ERRORS.some(pattern => pattern.test(message))) return "initcode-size-limit";
+  if (RUNTIME_SIZE_ERRORS.some(pattern => pattern.test(message))) return "runtime-size-limit";
+  if (/revert/i.test(message)) return "reverted";
+  return "other";
+};
+
+/**
+ * Normalizes user-provided hex (whitespace, missing 0x prefix) and checks it's valid bytes
+ */
+export const parseHexInput = (input: string, fieldName: string): Hex => {
+  const stripped = input.replace(/\s+/g, "");
+  const hex = (stripped.startsWith("0x") ? stripped : `0x${stripped}`) as Hex;
+  if (!isHex(hex) || hex.length % 2 !== 0) {
+    throw new Error(`${fieldName} must be valid hex bytes`);
+  }
+  return hex;
+};
+
+/**
+ * Runs the initcode (with its ABI-encoded constructor args appended) with a `to`-less eth_call, which returns the
+ * runtime code the constructor would deploy, without spending any gas
+ */
+export const simulateDeployment = async (
+  client: PublicClient,
+  initcode: Hex,
+  constructorArgs: Hex = "0x",
+): Promise<DryRunResult> => {
+  const data = concatHex([initcode, constructorArgs]);
+  const initcodeSize = getBytecodeSize(data);
+
+  try {
+    const { data: runtimeCode } = await client.call({ data });
+    return { initcodeSize, runtimeCode: runtimeCode ?? "0x", runtimeSize: getBytecodeSize(runtimeCode) };
+  } catch (err: any) {
+    const message: string = [err.details, err.shortMessage, err.message].filter(Boolean).join(" ");
+    return {
+      initcodeSize,
+      rejection: { reason: classifyDeploymentError(message), message: err.details || err.shortMessage || err.message },
+    };
+  }
+};
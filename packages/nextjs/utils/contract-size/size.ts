@@ -0,0 +1,116 @@
+import { Hex } from "viem";
+import { ContractSizeLimits } from "~~/scaffold.config";
+
+export type ContractSizeData = {
+  size: number;
+  percentageOfLimit: number;
+};
+
+export type SizeStatus = "exceeds" | "optimal" | "below" | "within";
+
+/**
+ * Returns the size in bytes of a hex encoded bytecode
+ */
+export const getBytecodeSize = (bytecode: Hex | undefined) => (bytecode ? (bytecode.length - 2) / 2 : 0);
+
+/**
+ * Converts a bytecode into the size data displayed by the checker
+ */
+export const getContractSizeData = (bytecode: Hex, limits: ContractSizeLimits): ContractSizeData => {
+  const sizeInBytes = getBytecodeSize(bytecode);
+
+  return {
+    size: sizeInBytes / 1024,
+    percentageOfLimit: (sizeInBytes / limits.runtimeCodeLimit) * 100,
+  };
+};
+
+/**
+ * Classifies a size (in KB) against the limit and, when the chain has one, its target band
+ */
+export const getSizeStatus = (size: number, limits: ContractSizeLimits): SizeStatus => {
+  const sizeInBytes = size * 1024;
+  if (sizeInBytes > limits.runtimeCodeLimit) return "exceeds";
+  if (!limits.targetBand) return "within";
+  if (sizeInBytes < limits.targetBand.min) return "below";
+  return "optimal";
+};
+
+export const SIZE_STATUS_LABELS: Record<SizeStatus, string> = {
+  exceeds: "Exceeds limit!",
+  below: "Below optimal range",
+  optimal: "Within optimal range",
+  within: "Within limit",
+};
+
+/**
+ * Scale of the Molandak size visual for a size (in KB), growing steeply through the target band
+ */
+export const getSizeVisualScale = (actualSize: number, limitKB: number) => {
+  if (!actualSize) return 0;
+
+  // Scales are tuned for a 128KB limit, so normalize the size to the current chain's limit
+  const size = (actualSize / limitKB) * 128;
+
+  // Start with a small base size for tiny contracts
+  if (size < 5) return 0.1 + (size / 5) * 0.1; // 0.1-0.2 scale for <5KB
+  if (size < 20) return 0.2 + ((size - 5) / 15) * 0.2; // 0.2-0.4 scale for 5-20KB
+  if (size < 50) return 0.4 + ((size - 20) / 30) * 0.3; // 0.4-0.7 scale for 20-50KB
+  if (size < 100) return 0.7 + ((size - 50) / 50) * 0.3; // 0.7-1.0 scale for 50-100KB
+  if (size <= 114) return 2.5 + ((size - 100) / 14) * 0.5; // 2.5-3.0 scale for 100-114KB
+  if (size <= 128) return 3.0 + ((size - 114) / 14) * 1.0; // 3.0-4.0 scale for 114-128KB
+  return 4.5; // Even larger for oversized contracts
+};
+
+/**
+ * Size thresholds (in KB) used to pick the gradient of the size bar.
+ * They scale with the chain's limit and start of the target band, matching the 5/20/50/100/114/128 KB
+ * steps of a 128 KB chain with a 100-128 KB band.
+ */
+export const getSizeBands = (limits: ContractSizeLimits) => {
+  const limitKB = limits.runtimeCodeLimit / 1024;
+  const targetMinKB = (limits.targetBand?.min ?? limits.runtimeCodeLimit * (100 / 128)) / 1024;
+  const targetMaxKB = (limits.targetBand?.max ?? limits.runtimeCodeLimit) / 1024;
+
+  return {
+    tiny: limitKB * (5 / 128),
+    small: limitKB * (20 / 128),
+    medium: limitKB * (50 / 128),
+    targetMin: targetMinKB,
+    targetMid: targetMinKB + (targetMaxKB - targetMinKB) / 2,
+    limit: limitKB,
+  };
+};
+
+export type SizeBand = "exceeds" | "tiny" | "small" | "medium" | "approaching" | "good" | "excellent";
+
+/**
+ * Gradient of each size band, as Tailwind classes for the app and as hex colors for places without Tailwind (badges)
+ */
+export const SIZE_BAND_GRADIENTS: Record<SizeBand, { className: string; from: string; to: string }> = {
+  exceeds: { className: "bg-gradient-to-r from-red-500 to-red-700", from: "#ef4444", to: "#b91c1c" },
+  tiny: { className: "bg-gradient-to-r from-red-400 to-red-300", from: "#f87171", to: "#fca5a5" },
+  small: { className: "bg-gradient-to-r from-red-300 to-orange-400", from: "#fca5a5", to: "#fb923c" },
+  medium: { className: "bg-gradient-to-r from-orange-400 to-yellow-500", from: "#fb923c", to: "#eab308" },
+  approaching: { className: "bg-gradient-to-r from-yellow-500 to-blue-500", from: "#eab308", to: "#3b82f6" },
+  good: { className: "bg-gradient-to-r from-blue-500 to-green-500", from: "#3b82f6", to: "#22c55e" },
+  excellent: { className: "bg-gradient-to-r from-green-500 to-emerald-600", from: "#22c55e", to: "#059669" },
+};
+
+/**
+ * Band of a size (in KB) on the size bar's scale
+ */
+export const getSizeBand = (size: number, limits: ContractSizeLimits): SizeBand => {
+  const bands = getSizeBands(limits);
+
+  if (size > bands.limit) return "exceeds";
+  if (size < bands.tiny) return "tiny";
+  if (size < bands.small) return "small";
+  if (size < bands.medium) return "medium";
+  if (size < bands.targetMin) return "approaching";
+  if (size < bands.targetMid) return "good";
+  return "excellent";
+};
+
+export const getGradientClass = (size: number, limits: ContractSizeLimits) =>
+  SIZE_BAND_GRADIENTS[getSizeBand(size, limits)].className;
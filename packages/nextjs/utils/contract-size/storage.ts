@@ -0,0 +1,395 @@
+import { getFoundryCompilationTarget } from "./artifact";
+import { diffSequences } from "./diff";
+import { isObject } from "./json";
+
+export type StorageLayoutType = {
+  encoding: "inplace" | "mapping" | "dynamic_array" | "bytes";
+  label: string;
+  numberOfBytes: string;
+  // Struct members
+  members?: StorageLayoutVariable[];
+  // Array elements
+  base?: string;
+  // Mapping keys and values
+  key?: string;
+  value?: string;
+};
+
+export type StorageLayoutVariable = {
+  astId?: number;
+  // "source:Contract" declaring the variable
+  contract: string;
+  label: string;
+  offset: number;
+  slot: string;
+  type: string;
+};
+
+// The `storageLayout` output of solc
+export type StorageLayout = {
+  storage: StorageLayoutVariable[];
+  types: Record<string, StorageLayoutType> | null;
+};
+
+export type NamedStorageLayout = {
+  name: string;
+  sourceName?: string;
+  layout: StorageLayout;
+};
+
+export type StorageChangeKind =
+  | "appended"
+  | "inserted"
+  | "inserted-into-gap"
+  | "removed"
+  | "moved"
+  | "renamed"
+  | "retyped"
+  | "shrunk"
+  | "grown"
+  | "gap-resized"
+  | "gap-misuse";
+
+export type StorageChangeSeverity = "error" | "warning" | "info";
+
+export type StorageChange = {
+  kind: StorageChangeKind;
+  severity: StorageChangeSeverity;
+  message: string;
+  // Why it matters or how to fix it
+  hint?: string;
+  before?: StorageLayoutVariable;
+  after?: StorageLayoutVariable;
+};
+
+export type StorageLayoutComparison = {
+  // False when any change is an error
+  compatible: boolean;
+  changes: StorageChange[];
+};
+
+const STORAGE_CHANGE_SEVERITIES: Record<StorageChangeKind, StorageChangeSeverity> = {
+  appended: "info",
+  inserted: "error",
+  "inserted-into-gap": "info",
+  removed: "error",
+  moved: "error",
+  renamed: "warning",
+  retyped: "error",
+  shrunk: "error",
+  grown: "error",
+  "gap-resized": "info",
+  "gap-misuse": "error",
+};
+
+const SLOT_SIZE = 32n;
+
+const isUintString = (value: unknown): value is string => typeof value === "string" && /^\d+$/.test(value);
+
+const isStorageLayoutVariable = (value: unknown): value is StorageLayoutVariable =>
+  isObject(value) &&
+  typeof value.contract === "string" &&
+  typeof value.label === "string" &&
+  typeof value.type === "string" &&
+  typeof value.offset === "number" &&
+  isUintString(value.slot);
+
+const isStorageLayoutType = (value: unknown): value is StorageLayoutType =>
+  isObject(value) &&
+  typeof value.label === "string" &&
+  isUintString(value.numberOfBytes) &&
+  (value.members === undefined || (Array.isArray(value.members) && value.members.every(isStorageLayoutVariable)));
+
+// Anything with a `storage` array is taken for a layout, and then has to be a valid one
+const hasStorageArray = (value: unknown): value is Record<string, unknown> & { storage: unknown[] } =>
+  isObject(value) && Array.isArray(value.storage);
+
+const toStorageLayout = (value: Record<string, unknown>, name: string): StorageLayout => {
+  const { storage, types } = value;
+  const isValid =
+    Array.isArray(storage) &&
+    storage.every(isStorageLayoutVariable) &&
+    (types === null || types === undefined || (isObject(types) && Object.values(types).every(isStorageLayoutType)));
+  if (!isValid) throw new Error(`Invalid storage layout for ${name}: unexpected variables or types`);
+  return { storage, types: (types ?? null) as StorageLayout["types"] };
+};
+
+/**
+ * Reads the storage layouts of a build-info file, a solc standard JSON output, a Foundry artifact or a bare
+ * `storageLayout` object. Layouts are only there when the compiler was asked for them.
+ */
+export const parseStorageLayouts = (text: string, fileName: string): NamedStorageLayout[] => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    throw new Error("Unrecognized file: expected JSON with a storage layout");
+  }
+  if (!isObject(json)) throw new Error("Unrecognized file: expected JSON with a storage layout");
+
+  const fallbackName = fileName.replace(/\.json$/, "");
+  let layouts: NamedStorageLayout[] = [];
+  if (hasStorageArray(json)) {
+    layouts = [{ name: fallbackName, layout: toStorageLayout(json, fallbackName) }];
+  } else if (hasStorageArray(json.storageLayout)) {
+    // Foundry artifact
+    const [sourceName, name] = getFoundryCompilationTarget(json) ?? [undefined, fallbackName];
+    layouts = [{ name, sourceName, layout: toStorageLayout(json.storageLayout, name) }];
+  } else {
+    // Hardhat build-info files wrap the solc output
+    const contracts = isObject(json.output) ? json.output.contracts : json.contracts;
+    if (isObject(contracts)) {
+      layouts = Object.entries(contracts).flatMap(([sourceName, byName]) =>
+        Object.entries(isObject(byName) ? byName : {}).flatMap(([name, contract]) =>
+          isObject(contract) && hasStorageArray(contract.storageLayout)
+            ? [{ name, sourceName, layout: toStorageLayout(contract.storageLayout, `${sourceName}:${name}`) }]
+            : [],
+        ),
+      );
+    }
+  }
+
+  if (layouts.length === 0) {
+    throw new Error(
+      'No storage layout found. Add "storageLayout" to solc\'s outputSelection ' +
+        '(Foundry: extra_output = ["storageLayout"])',
+    );
+  }
+  return layouts;
+};
+
+const getStart = (variable: StorageLayoutVariable) => BigInt(variable.slot) * SLOT_SIZE + BigInt(variable.offset);
+
+const getEnd = (variable: StorageLayoutVariable, types: StorageLayout["types"]) =>
+  getStart(variable) + BigInt(types?.[variable.type]?.numberOfBytes ?? SLOT_SIZE);
+
+const isGap = (variable: StorageLayoutVariable, types: StorageLayout["types"]) =>
+  /^__gap/.test(variable.label) && types?.[variable.type]?.base !== undefined;
+
+export const formatStoragePosition = (variable: StorageLayoutVariable) =>
+  `slot ${variable.slot}${variable.offset > 0 ? `, offset ${variable.offset}` : ""}`;
+
+// Types stored as the same 20 bytes
+const normalizeTypeLabel = (label: string) =>
+  /^(address( payable)?|contract .+|interface .+)$/.test(label) ? "address" : label;
+
+type TypeChange = { kind: "retyped" | "shrunk" | "grown"; detail: string };
+
+/**
+ * Whether values stored as the old type read the same as the new type. Structs can gain members at their end
+ * when they don't grow, or when they're mapping values (each value has its own slots).
+ */
+const compareTypes = (
+  beforeId: string,
+  afterId: string,
+  beforeTypes: StorageLayout["types"],
+  afterTypes: StorageLayout["types"],
+  isMappingValue = false,
+): TypeChange | undefined => {
+  const before = beforeTypes?.[beforeId];
+  const after = afterTypes?.[afterId];
+  if (!before || !after) {
+    return beforeId === afterId ? undefined : { kind: "retyped", detail: `${beforeId} to ${afterId}` };
+  }
+  const retyped: TypeChange = { kind: "retyped", detail: `${before.label} to ${after.label}` };
+  if (before.encoding !== after.encoding) return retyped;
+
+  const beforeSize = BigInt(before.numberOfBytes);
+  const afterSize = BigInt(after.numberOfBytes);
+  const sizeChange: TypeChange | undefined =
+    afterSize < beforeSize
+      ? { kind: "shrunk", detail: `${before.label} to ${after.label}` }
+      : afterSize > beforeSize
+        ? { kind: "grown", detail: `${before.label} to ${after.label}` }
+        : undefined;
+
+  switch (before.encoding) {
+    case "bytes":
+      return undefined;
+    case "mapping":
+      if (
+        normalizeTypeLabel(beforeTypes?.[before.key ?? ""]?.label ?? "") !==
+        normalizeTypeLabel(afterTypes?.[after.key ?? ""]?.label ?? "")
+      ) {
+        return retyped;
+      }
+      return compareTypes(before.value ?? "", after.value ?? "", beforeTypes, afterTypes, true);
+    case "dynamic_array":
+      return compareTypes(before.base ?? "", after.base ?? "", beforeTypes, afterTypes);
+    case "inplace":
+      if (before.members || after.members) {
+        const beforeMembers = before.members ?? [];
+        const afterMembers = after.members ?? [];
+        if (afterMembers.length < beforeMembers.length) return { ...retyped, detail: `${before.label} lost members` };
+        for (let i = 0; i < beforeMembers.length; i++) {
+          const beforeMember = beforeMembers[i];
+          const afterMember = afterMembers[i];
+          if (
+            beforeMember.label !== afterMember.label ||
+            beforeMember.slot !== afterMember.slot ||
+            beforeMember.offset !== afterMember.offset
+          ) {
+            return { ...retyped, detail: `${before.label} member \`${beforeMember.label}\` changed` };
+          }
+          const memberChange = compareTypes(beforeMember.type, afterMember.type, beforeTypes, afterTypes);
+          if (memberChange)
+            return { ...memberChange, detail: `${before.label}.${beforeMember.label}: ${memberChange.detail}` };
+        }
+        return isMappingValue && sizeChange?.kind === "grown" ? undefined : sizeChange;
+      }
+      if (before.base !== undefined && after.base !== undefined) {
+        return compareTypes(before.base, after.base, beforeTypes, afterTypes) ?? sizeChange;
+      }
+      // Enums keep their size when members are appended, so their labels are enough
+      if (normalizeTypeLabel(before.label) === normalizeTypeLabel(after.label)) return undefined;
+      return sizeChange ?? retyped;
+  }
+};
+
+/**
+ * Checks that an upgrade keeps the storage of the proxy readable, following OpenZeppelin's upgrade safety rules:
+ * variables can only be appended, or take the place of the end of a `__gap` that shrinks by as much. Removing,
+ * moving, reordering or changing the type of a variable is an error, renaming one is a warning.
+ */
+export const compareStorageLayouts = (before: StorageLayout, after: StorageLayout): StorageLayoutComparison => {
+  const changes: StorageChange[] = [];
+  const add = (
+    kind: StorageChangeKind,
+    message: string,
+    details: Omit<StorageChange, "kind" | "severity" | "message">,
+  ) => changes.push({ kind, severity: STORAGE_CHANGE_SEVERITIES[kind], message, ...details });
+
+  const operations = diffSequences(
+    before.storage.map(variable => variable.label),
+    after.storage.map(variable => variable.label),
+  );
+  if (!operations) throw new Error("The layouts are too different to compare");
+
+  const matched: [StorageLayoutVariable, StorageLayoutVariable][] = [];
+  const removed: StorageLayoutVariable[] = [];
+  const inserted: StorageLayoutVariable[] = [];
+  let beforeIndex = 0;
+  let afterIndex = 0;
+  operations.forEach(operation => {
+    if (operation === "equal") matched.push([before.storage[beforeIndex++], after.storage[afterIndex++]]);
+    else if (operation === "delete") removed.push(before.storage[beforeIndex++]);
+    else inserted.push(after.storage[afterIndex++]);
+  });
+
+  // Variables that both left and reappeared were reordered, or renamed when another one took their place
+  const takeInserted = (predicate: (variable: StorageLayoutVariable) => boolean) => {
+    const index = inserted.findIndex(predicate);
+    return index >= 0 ? inserted.splice(index, 1)[0] : undefined;
+  };
+  const unmatched = removed.filter(variable => {
+    const sameLabel = takeInserted(candidate => candidate.label === variable.label);
+    if (sameLabel) {
+      matched.push([variable, sameLabel]);
+      return false;
+    }
+    const samePlace = takeInserted(
+      candidate =>
+        getStart(candidate) === getStart(variable) &&
+        !compareTypes(variable.type, candidate.type, before.types, after.types),
+    );
+    if (samePlace) {
+      add("renamed", `Renamed \`${variable.label}\` to \`${samePlace.label}\``, {
+        hint: "The value is kept. Make sure the new name still means the same thing.",
+        before: variable,
+        after: samePlace,
+      });
+      return false;
+    }
+    return true;
+  });
+
+  const gaps: [StorageLayoutVariable, StorageLayoutVariable][] = [];
+  matched.forEach(([beforeVariable, afterVariable]) => {
+    if (isGap(beforeVariable, before.types) && isGap(afterVariable, after.types)) {
+      gaps.push([beforeVariable, afterVariable]);
+      return;
+    }
+    if (getStart(beforeVariable) !== getStart(afterVariable)) {
+      add(
+        "moved",
+        `Moved \`${beforeVariable.label}\` from ${formatStoragePosition(beforeVariable)} to ${formatStoragePosition(afterVariable)}`,
+        {
+          hint: "The variable would read whatever is stored at its new position. Keep the existing order.",
+          before: beforeVariable,
+          after: afterVariable,
+        },
+      );
+      return;
+    }
+    const typeChange = compareTypes(beforeVariable.type, afterVariable.type, before.types, after.types);
+    if (typeChange) {
+      add(typeChange.kind, `Upgraded \`${beforeVariable.label}\` to an incompatible type (${typeChange.detail})`, {
+        hint:
+          typeChange.kind === "retyped"
+            ? "The stored bytes would be read as another type."
+            : `The new type ${typeChange.kind === "shrunk" ? "drops stored bytes" : "overlaps the next variables"}.`,
+        before: beforeVariable,
+        after: afterVariable,
+      });
+    }
+  });
+
+  gaps.forEach(([beforeGap, afterGap]) => {
+    const beforeEnd = getEnd(beforeGap, before.types);
+    const afterEnd = getEnd(afterGap, after.types);
+    if (beforeEnd !== afterEnd) {
+      add(
+        "gap-misuse",
+        `\`${afterGap.label}\` in ${afterGap.contract} ends ${afterEnd > beforeEnd ? "after" : "before"} where it used to`,
+        {
+          hint: "Shrink the gap by exactly the slots the new variables before it take, so what follows stays in place.",
+          before: beforeGap,
+          after: afterGap,
+        },
+      );
+    } else if (getStart(beforeGap) !== getStart(afterGap)) {
+      add("gap-resized", `Shrunk \`${afterGap.label}\` in ${afterGap.contract} to make room for new variables`, {
+        before: beforeGap,
+        after: afterGap,
+      });
+    }
+  });
+
+  const beforeEnd = before.storage.reduce((end, variable) => {
+    const variableEnd = getEnd(variable, before.types);
+    return variableEnd > end ? variableEnd : end;
+  }, 0n);
+  inserted.forEach(variable => {
+    const start = getStart(variable);
+    const end = getEnd(variable, after.types);
+    const gap = gaps.find(
+      ([beforeGap, afterGap]) =>
+        getEnd(beforeGap, before.types) === getEnd(afterGap, after.types) &&
+        start >= getStart(beforeGap) &&
+        end <= getStart(afterGap),
+    );
+    if (start >= beforeEnd) {
+      add("appended", `Appended \`${variable.label}\` at ${formatStoragePosition(variable)}`, { after: variable });
+    } else if (gap) {
+      add("inserted-into-gap", `Inserted \`${variable.label}\` in place of part of \`${gap[0].label}\``, {
+        after: variable,
+      });
+    } else {
+      add("inserted", `Inserted \`${variable.label}\` at ${formatStoragePosition(variable)}`, {
+        hint: "New variables should be placed after all existing inherited variables, or take slots from a gap.",
+        after: variable,
+      });
+    }
+  });
+
+  unmatched.forEach(variable =>
+    add("removed", `Deleted \`${variable.label}\` from ${formatStoragePosition(variable)}`, {
+      hint: "Keep the variable, unused, so the ones after it stay in place. Its slots keep their old value.",
+      before: variable,
+    }),
+  );
+
+  const getPosition = (change: StorageChange) => getStart((change.after ?? change.before) as StorageLayoutVariable);
+  changes.sort((a, b) => (getPosition(a) < getPosition(b) ? -1 : getPosition(a) > getPosition(b) ? 1 : 0));
+  return { compatible: changes.every(change => change.severity !== "error"), changes };
+};
@@ -0,0 +1,93 @@
+import { mapWithConcurrency } from "./batch";
+import { getBytecodeSize } from "./size";
+import { Address, Hex, PublicClient, keccak256 } from "viem";
+
+export type CodeSnapshot = {
+  blockNumber: bigint;
+  // Undefined when there's no code at that block
+  codeHash?: Hex;
+  // Size in bytes
+  size: number;
+};
+
+export type CodeVersion = CodeSnapshot & {
+  // Size difference in bytes with the previous version
+  delta: number;
+};
+
+const SAMPLE_CONCURRENCY = 5;
+
+type TimelineOptions = {
+  samples: number;
+  onProgress?: (requests: number) => void;
+  signal?: AbortSignal;
+};
+
+/**
+ * Finds every block in [fromBlock, toBlock] where the code at `address` changed.
+ * The range is sampled evenly, then each pair of samples with different code hashes is bisected down to the exact
+ * block of the change. Versions that appear and disappear between two samples can be missed, more samples reduce
+ * that risk. Requires an archive node for blocks older than the node's state history.
+ */
+export const findCodeVersions = async (
+  client: PublicClient,
+  address: Address,
+  fromBlock: bigint,
+  toBlock: bigint,
+  { samples, onProgress, signal }: TimelineOptions,
+): Promise<CodeVersion[]> => {
+  const snapshots = new Map<bigint, CodeSnapshot>();
+  let requests = 0;
+
+  const getSnapshot = async (blockNumber: bigint): Promise<CodeSnapshot> => {
+    const cached = snapshots.get(blockNumber);
+    if (cached) return cached;
+    if (signal?.aborted) throw new Error("Timeline scan cancelled");
+
+    const code = await client.getCode({ address, blockNumber });
+    const snapshot = {
+      blockNumber,
+      codeHash: code && code !== "0x" ? keccak256(code) : undefined,
+      size: getBytecodeSize(code),
+    };
+    snapshots.set(blockNumber, snapshot);
+    onProgress?.(++requests);
+    return snapshot;
+  };
+
+  // Evenly spaced sample blocks, always including both ends of the range
+  const span = toBlock - fromBlock;
+  const sampleCount = BigInt(Math.max(2, samples));
+  const sampleBlocks = [
+    ...new Set(
+      Array.from({ length: Number(sampleCount) }, (_, i) => fromBlock + (span * BigInt(i)) / (sampleCount - 1n)),
+    ),
+  ];
+  const sampled = await mapWithConcurrency(sampleBlocks, SAMPLE_CONCURRENCY, getSnapshot, { signal });
+  if (signal?.aborted) throw new Error("Timeline scan cancelled");
+
+  const samplesInOrder = sampled as CodeSnapshot[];
+  const changes: CodeSnapshot[] = [samplesInOrder[0]];
+  for (let i = 1; i < samplesInOrder.length; i++) {
+    let low = samplesInOrder[i - 1];
+    const high = samplesInOrder[i];
+    // Several versions can sit between two samples, keep bisecting until the high end's version is reached
+    while (low.codeHash !== high.codeHash) {
+      let lowBlock = low.blockNumber;
+      let highBlock = high.blockNumber;
+      while (highBlock - lowBlock > 1n) {
+        const middle = await getSnapshot(lowBlock + (highBlock - lowBlock) / 2n);
+        if (middle.codeHash === low.codeHash) lowBlock = middle.blockNumber;
+        else highBlock = middle.blockNumber;
+      }
+      const change = await getSnapshot(highBlock);
+      changes.push(change);
+      low = change;
+    }
+  }
+
+  return changes.map((snapshot, index) => ({
+    ...snapshot,
+    delta: index === 0 ? 0 : snapshot.size - changes[index - 1].size,
+  }));
+};
@@ -0,0 +1,80 @@
+import { CodeVersion } from "./timeline";
+import { Address, Hex } from "viem";
+
+export type CodeChangeKind = "deployed" | "upgraded" | "self-destructed" | "redeployed";
+
+export type CodeChange = {
+  kind: CodeChangeKind;
+  // Block numbers are kept as strings so the watch list can be stored as JSON
+  blockNumber: string;
+  detectedAt: number;
+  previousCodeHash?: Hex;
+  codeHash?: Hex;
+  // Sizes in bytes
+  previousSize: number;
+  size: number;
+};
+
+export type WatchedContract = {
+  address: Address;
+  chainId: number;
+  codeHash?: Hex;
+  // Size in bytes of the code seen at the last poll
+  size: number;
+  lastCheckedBlock: string;
+  addedAt: number;
+  changes: CodeChange[];
+};
+
+export type CodeChangeWebhookPayload = CodeChange & {
+  event: "code-changed";
+  chainId: number;
+  address: Address;
+};
+
+/**
+ * Code appearing at an address is a deployment the first time, and a redeployment once the address had code before
+ */
+export const getCodeChangeKind = (
+  previousCodeHash: Hex | undefined,
+  codeHash: Hex | undefined,
+  hadCode = false,
+): CodeChangeKind => {
+  if (!codeHash) return "self-destructed";
+  if (!previousCodeHash) return hadCode ? "redeployed" : "deployed";
+  return "upgraded";
+};
+
+/**
+ * Turns the code versions found since the last poll into change log entries.
+ * The first version is the one already known, every following one is a change.
+ * `hadCode` tells whether the address held code before the known version, e.g. before a self-destruct.
+ */
+export const getCodeChanges = (versions: CodeVersion[], detectedAt: number, hadCode = false): CodeChange[] =>
+  versions.slice(1).map((version, index) => ({
+    kind: getCodeChangeKind(
+      versions[index].codeHash,
+      version.codeHash,
+      hadCode || versions.slice(0, index + 1).some(previous => previous.codeHash),
+    ),
+    blockNumber: version.blockNumber.toString(),
+    detectedAt,
+    previousCodeHash: versions[index].codeHash,
+    codeHash: version.codeHash,
+    previousSize: versions[index].size,
+    size: version.size,
+  }));
+
+/**
+ * POSTs a code change as JSON to a user-configured URL
+ */
+export const postCodeChangeWebhook = async (url: string, payload: CodeChangeWebhookPayload) => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+  }
+};
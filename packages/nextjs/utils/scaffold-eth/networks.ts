@@ -1,5 +1,5 @@
 import * as chains from "viem/chains";
-import scaffoldConfig from "~~/scaffold.config";
+import scaffoldConfig, { ContractSizeLimits } from "~~/scaffold.config";
 
 type ChainAttributes = {
   // color | [lightThemeColor, darkThemeColor]
@@ -7,6 +7,8 @@ type ChainAttributes = {
   // Used to fetch price by providing mainnet token address
   // for networks having native currency other than ETH
   nativeCurrencyTokenAddress?: string;
+  // Code size limits enforced by the network, defaults to EIP-170/EIP-3860 when missing
+  sizeLimits?: ContractSizeLimits;
 };
 
 export type ChainWithAttributes = chains.Chain & Partial<ChainAttributes>;
@@ -91,6 +93,14 @@ export const NETWORKS_EXTRA_DATA: Record<string, ChainAttributes> = {
   [chains.celoAlfajores.id]: {
     color: "#476520",
   },
+  [chains.monadTestnet.id]: {
+    color: "#836ef9",
+    sizeLimits: {
+      runtimeCodeLimit: 128 * 1024,
+      initcodeLimit: 256 * 1024,
+      targetBand: { min: 100 * 1024, max: 128 * 1024 },
+    },
+  },
 };
 
 /**